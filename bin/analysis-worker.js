@@ -0,0 +1,14 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+
+/**
+ * Worker thread entry for content analysis, started by analyzeFiles (src/lib/analysis.ts).
+ * Plain JavaScript so the CLI and the Next.js server, whose bundle does not contain the worker,
+ * load it the same way: tsx compiles the TypeScript worker on the fly, as in bin/cli.js.
+ */
+const { register } = require('tsx/cjs/api');
+
+register({
+  tsconfig: require.resolve('../tsconfig.json')
+});
+
+require('../src/lib/analysis-worker.ts');
@@ -4,6 +4,10 @@ const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
   serverExternalPackages: ['depcheck', 'glob'],
+  // Analysis workers run outside the bundle: bin/analysis-worker.js compiles the rule sources with tsx
+  outputFileTracingIncludes: {
+    '/api/**/*': ['./bin/analysis-worker.js', './src/lib/**/*.ts', './tsconfig.json']
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { createReportStore } from '@/lib/report-store';
+import { createServerLogger } from '@/utils/server-logger';
+import { authorizeRequest, withStoredRootSignature } from '@/utils/scan-request';
+
+const serverLog = createServerLogger('reports');
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+const notFound = () => NextResponse.json({
+  error: 'Report not found',
+  type: 'REPORT_NOT_FOUND'
+}, { status: 404 });
+
+/**
+ * A saved report, signed for file previews like a fresh scan when its root is inside the workspace
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const unauthorized = authorizeRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const { id } = await params;
+  const report = await createReportStore().get(id);
+  if (!report) {
+    return notFound();
+  }
+  return NextResponse.json(withStoredRootSignature(report, serverLog));
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const unauthorized = authorizeRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const { id } = await params;
+  if (!(await createReportStore().delete(id))) {
+    return notFound();
+  }
+  serverLog('info', 'reports', 'Report deleted', { id });
+  return NextResponse.json({ id, deleted: true });
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { createReportStore } from '@/lib/report-store';
+import { createServerLogger } from '@/utils/server-logger';
+import { authorizeRequest } from '@/utils/scan-request';
+
+const serverLog = createServerLogger('reports');
+
+/**
+ * Saved report summaries, newest first. Optional query: root (project root path) and limit.
+ */
+export async function GET(request: Request) {
+  const unauthorized = authorizeRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const rootPath = searchParams.get('root') || undefined;
+  const limit = Number(searchParams.get('limit'));
+
+  const reports = await createReportStore().list({
+    rootPath,
+    limit: Number.isInteger(limit) && limit > 0 ? limit : undefined
+  });
+  serverLog('info', 'reports', 'Reports listed', { rootPath, count: reports.length });
+  return NextResponse.json({ reports });
+}
@@ -1,53 +1,25 @@
 import { NextResponse } from 'next/server';
 import { scanProject } from '@/lib/scan';
 import { createServerLogger } from '@/utils/server-logger';
-import { validateAuth, signPath } from '@/utils/security';
-import { resolveScanTarget } from '@/utils/path-utils';
+import { classifyScanError, parseScanRequest, saveToReportStore, withRootSignature } from '@/utils/scan-request';
 
 const serverLog = createServerLogger('scan');
 
-const getErrorMessage = (error: unknown, fallback: string) =>
-  error instanceof Error ? error.message : fallback;
-
 const getErrorStack = (error: unknown) =>
   error instanceof Error ? error.stack : undefined;
 
 export async function POST(request: Request) {
   const startTime = Date.now();
   try {
-    try {
-      validateAuth(request.headers);
-    } catch (authError: unknown) {
-      const message = getErrorMessage(authError, 'Unauthorized');
-      return NextResponse.json({
-        error: 'Unauthorized',
-        type: 'AUTH_ERROR',
-        details: message
-      }, { status: 401 });
-    }
-    const body = await request.json().catch(() => ({}));
-    const scanPath = body.path as string | undefined;
-    
-    serverLog('info', 'scan', 'Scan API called', { path: scanPath });
-
-    let resolvedScanPath: string;
-    try {
-      resolvedScanPath = resolveScanTarget(scanPath, {
-        workspaceRoot: process.env.SANITY_GATE_ROOT,
-        enforceWorkspaceRoot: (process.env.SANITY_GATE_ENFORCE_ROOT || '').toLowerCase() === 'true',
-        baseDir: process.cwd()
-      });
-    } catch (error: unknown) {
-      const message = getErrorMessage(error, 'Invalid path');
-      serverLog('error', 'scan', 'Workspace constraint violation', { message });
-      return NextResponse.json({
-        error: message.includes('SECURITY_ERROR') ? 'Path is outside the workspace root' : 'Invalid scan path',
-        type: message.includes('SECURITY_ERROR') ? 'SECURITY_ERROR' : 'VALIDATION_ERROR'
-      }, { status: message.includes('SECURITY_ERROR') ? 403 : 400 });
+    const scanRequest = await parseScanRequest(request, serverLog);
+    if (!scanRequest.ok) {
+      return scanRequest.response;
     }
+    const { resolvedPath } = scanRequest;
 
-    // Use shared scan function
-    const report = await scanProject(resolvedScanPath, serverLog);
+    // Use shared scan function; it stops when the client disconnects
+    const report = await scanProject(resolvedPath, serverLog, { signal: request.signal });
+    await saveToReportStore(report, serverLog);
 
     const totalDuration = Date.now() - startTime;
     serverLog('info', 'scan', 'Scan completed successfully', {
@@ -61,50 +33,29 @@ export async function POST(request: Request) {
       }, {} as Record<string, number>)
     });
 
-    const normalizedRoot = report.rootPath || resolvedScanPath;
-    const rootSignature = signPath(normalizedRoot) || report.rootSignature;
-    return NextResponse.json({
-      ...report,
-      rootPath: normalizedRoot,
-      rootSignature: rootSignature || undefined
-    });
+    return NextResponse.json(withRootSignature(report, resolvedPath));
 
   } catch (error: unknown) {
     const totalDuration = Date.now() - startTime;
-    
-    // Parse error message to determine error type
-    let errorType = 'UNKNOWN_ERROR';
-    let errorMessage = getErrorMessage(error, 'Unknown error occurred');
-    
-    if (errorMessage.includes('VALIDATION_ERROR')) {
-      errorType = 'VALIDATION_ERROR';
-      errorMessage = errorMessage.replace('VALIDATION_ERROR: ', '');
-    } else if (errorMessage.includes('PATH_NOT_FOUND')) {
-      errorType = 'PATH_NOT_FOUND';
-      errorMessage = errorMessage.replace('PATH_NOT_FOUND: ', '');
-    } else if (errorMessage.includes('PERMISSION_DENIED')) {
-      errorType = 'PERMISSION_DENIED';
-      errorMessage = errorMessage.replace('PERMISSION_DENIED: ', '');
-    } else if (errorMessage.includes('SECURITY_ERROR')) {
-      errorType = 'SECURITY_ERROR';
-      errorMessage = errorMessage.replace('SECURITY_ERROR: ', '');
+    const { type, details, status } = classifyScanError(error);
+
+    if (type === 'SCAN_ABORTED') {
+      serverLog('info', 'scan', 'Scan cancelled by client', { duration: totalDuration });
+      return NextResponse.json({ error: 'Scan cancelled', type, details }, { status });
     }
 
     serverLog('error', 'scan', 'Scan failed with exception', {
-      error: errorMessage,
-      type: errorType,
+      error: details,
+      type,
       stack: getErrorStack(error),
       duration: totalDuration
     });
 
-    const statusCode = errorType === 'VALIDATION_ERROR' || errorType === 'PATH_NOT_FOUND' ? 400 :
-                      errorType === 'PERMISSION_DENIED' || errorType === 'SECURITY_ERROR' ? 403 : 500;
-
     return NextResponse.json({
       error: 'Scan failed',
-      type: errorType,
-      details: errorMessage,
+      type,
+      details,
       timestamp: new Date().toISOString()
-    }, { status: statusCode });
+    }, { status });
   }
 }
@@ -0,0 +1,92 @@
+import { scanProject } from '@/lib/scan';
+import { createServerLogger } from '@/utils/server-logger';
+import { classifyScanError, parseScanRequest, saveToReportStore, withRootSignature } from '@/utils/scan-request';
+
+const serverLog = createServerLogger('scan-stream');
+
+/**
+ * Runs a scan and streams it as Server-Sent Events:
+ * "progress" (scan progress events), "issues" (issues found by a finished phase, before suppressions),
+ * then either "report" (the final report) or "error" ({ error, type, details }).
+ * Auth and path problems are answered with the same JSON errors as POST /api/scan before the stream starts.
+ */
+export async function POST(request: Request) {
+  const scanRequest = await parseScanRequest(request, serverLog);
+  if (!scanRequest.ok) {
+    return scanRequest.response;
+  }
+  const { resolvedPath } = scanRequest;
+
+  const encoder = new TextEncoder();
+  let open = true;
+  // The scan stops when the client disconnects or cancels reading the stream
+  const abortController = new AbortController();
+  const abortScan = () => abortController.abort();
+  request.signal.addEventListener('abort', abortScan, { once: true });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          // Client went away; the scan finishes without an audience
+          open = false;
+        }
+      };
+
+      const startTime = Date.now();
+      try {
+        const report = await scanProject(resolvedPath, serverLog, {
+          signal: abortController.signal,
+          onProgress: event => {
+            if (event.type !== 'phase-finished') {
+              send('progress', event);
+              return;
+            }
+            const { issues, ...progress } = event;
+            send('progress', progress);
+            if (issues.length > 0) {
+              send('issues', { phase: event.phase.id, issues });
+            }
+          }
+        });
+
+        serverLog('info', 'scan', 'Streamed scan completed', {
+          project: report.project,
+          issueCount: report.issues.length,
+          duration: Date.now() - startTime
+        });
+        await saveToReportStore(report, serverLog);
+        send('report', withRootSignature(report, resolvedPath));
+      } catch (error: unknown) {
+        const { type, details } = classifyScanError(error);
+        if (type === 'SCAN_ABORTED') {
+          serverLog('info', 'scan', 'Streamed scan cancelled', { duration: Date.now() - startTime });
+        } else {
+          serverLog('error', 'scan', 'Streamed scan failed', { error: details, type, duration: Date.now() - startTime });
+          send('error', { error: 'Scan failed', type, details });
+        }
+      } finally {
+        request.signal.removeEventListener('abort', abortScan);
+        if (open) {
+          open = false;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      open = false;
+      abortScan();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { createServerLogger } from '@/utils/server-logger';
+import { getScanJobQueue } from '@/utils/scan-jobs';
+import { authorizeRequest } from '@/utils/scan-request';
+
+const serverLog = createServerLogger('scan-jobs');
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+const notFound = () => NextResponse.json({
+  error: 'Scan job not found',
+  type: 'JOB_NOT_FOUND',
+  details: 'Unknown job id, or the job has expired.'
+}, { status: 404 });
+
+/**
+ * Status of a scan job: queue position while queued, progress while running,
+ * then the report (completed) or error (failed) until the job expires
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const unauthorized = authorizeRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const { id } = await params;
+  const job = getScanJobQueue(serverLog).get(id);
+  if (!job) {
+    return notFound();
+  }
+
+  return NextResponse.json(job);
+}
+
+/**
+ * Cancels a queued or running job, or forgets a finished one. A running job answers 202 and turns
+ * cancelled once its scan has stopped.
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const unauthorized = authorizeRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const { id } = await params;
+  const job = getScanJobQueue(serverLog).cancel(id);
+  if (!job) {
+    return notFound();
+  }
+
+  return NextResponse.json(job, { status: job.status === 'running' ? 202 : 200 });
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { createServerLogger } from '@/utils/server-logger';
+import { getScanJobQueue } from '@/utils/scan-jobs';
+import { parseScanRequest } from '@/utils/scan-request';
+
+const serverLog = createServerLogger('scan-jobs');
+
+/**
+ * Queues a scan and answers right away with the job id; poll GET /api/scans/:id for progress and the report
+ */
+export async function POST(request: Request) {
+  const scanRequest = await parseScanRequest(request, serverLog);
+  if (!scanRequest.ok) {
+    return scanRequest.response;
+  }
+
+  const job = getScanJobQueue(serverLog).submit(scanRequest.resolvedPath);
+  if (!job) {
+    serverLog('warn', 'scan', 'Scan queue full, job rejected');
+    return NextResponse.json({
+      error: 'Too many scans queued',
+      type: 'QUEUE_FULL',
+      details: 'The scan queue is full. Try again once running scans have finished.'
+    }, { status: 429 });
+  }
+
+  const statusUrl = `/api/scans/${job.id}`;
+  return NextResponse.json({ ...job, statusUrl }, { status: 202, headers: { Location: statusUrl } });
+}
@@ -1,15 +1,21 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, type ReactNode } from 'react';
 import Header from '@/components/Header';
 import ScanFlow, { ScanStepStatus } from '@/components/ScanFlow';
-import IssueMap, { IssueMapCategory } from '@/components/IssueMap';
+import IssueMap, { IssueMapCategory, IssueMapSeverity } from '@/components/IssueMap';
 import IssueStack from '@/components/IssueStack';
+import HealthTrend from '@/components/HealthTrend';
 import LLMPanel from '@/components/LLMPanel';
 import FilePreview from '@/components/FilePreview';
+import ReportCompare from '@/components/ReportCompare';
 import { FolderOpen, Link2, Package, PlayCircle, Image as ImageIcon, Shield, Zap, Code, GitBranch, Search, Eye, Scale } from 'lucide-react';
-import { ScanReport, Issue } from '@/lib/scan';
+import { ScanReport, Issue, IssueCategory, ScanProgressEvent } from '@/lib/scan';
+import { applyProgressEvent, createProgressState } from '@/lib/progress';
+import { computeHealthScore } from '@/lib/health';
+import { CATEGORIES } from '@/lib/rules/catalog';
 import { logger } from '@/utils/logger';
+import { readServerSentEvents } from '@/utils/sse';
 
 type SanityGateWindow = Window & {
   sanityGateLogger?: typeof logger;
@@ -22,6 +28,54 @@ const getErrorDetails = (error: unknown) => {
   return { message: typeof error === 'string' ? error : 'Unknown error', stack: undefined };
 };
 
+const categoryIcons: Record<IssueCategory, ReactNode> = {
+  'git': <GitBranch size={16} />,
+  'filesystem': <FolderOpen size={16} />,
+  'assets': <ImageIcon size={16} />,
+  'orphans': <Link2 size={16} />,
+  'dependencies': <Package size={16} />,
+  'licenses': <Scale size={16} />,
+  'security': <Shield size={16} />,
+  'env': <Shield size={16} />,
+  'seo': <Search size={16} />,
+  'accessibility': <Eye size={16} />,
+  'code-quality': <Code size={16} />,
+  'performance': <Zap size={16} />,
+  'build': <PlayCircle size={16} />,
+};
+
+// Tile emphasis follows the category's health score
+const getScoreSeverity = (score: number): IssueMapSeverity => {
+  if (score >= 100) return 'none';
+  if (score >= 80) return 'low';
+  if (score >= 50) return 'medium';
+  return 'high';
+};
+
+interface ScanErrorData {
+  error?: string;
+  type?: string;
+  details?: string;
+  path?: string;
+}
+
+// User-friendly message for an API error response or streamed error event
+const describeScanError = (errorData: ScanErrorData, scanPath: string) => {
+  const errorMessage = errorData.details || errorData.error || 'Scan failed';
+  switch (errorData.type) {
+    case 'PATH_NOT_FOUND':
+      return `Path not found: ${errorData.path || scanPath}`;
+    case 'PERMISSION_DENIED':
+      return 'Permission denied. Try running as administrator or choose a different path.';
+    case 'SECURITY_ERROR':
+      return errorMessage + ' Please choose a project directory.';
+    case 'CONFIG_ERROR':
+      return `Invalid Sanity Gate config: ${errorMessage}`;
+    default:
+      return errorMessage;
+  }
+};
+
 const getApiHeaders = () => {
   const headers: Record<string, string> = { 'Content-Type': 'application/json' };
   if (process.env.NEXT_PUBLIC_SANITY_GATE_TOKEN) {
@@ -33,11 +87,16 @@ const getApiHeaders = () => {
 export default function Home() {
   const [isScanning, setIsScanning] = useState(false);
   const [report, setReport] = useState<ScanReport | null>(null);
+  // Issues streamed per phase while a scan runs, replaced by the report when it arrives
+  const [liveIssues, setLiveIssues] = useState<Issue[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [scanPath, setScanPath] = useState('');
   const [selectedIssue, setSelectedIssue] = useState<Issue | null>(null);
   const [resolvedProjectRoot, setResolvedProjectRoot] = useState('');
   const [rootSignature, setRootSignature] = useState<string | null>(null);
+  const [showCompare, setShowCompare] = useState(false);
+  // Aborting closes the stream, which stops the scan on the server
+  const scanAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     logger.componentMount('Home');
@@ -53,30 +112,25 @@ export default function Home() {
     };
   }, []);
 
-  // Scan Steps State - Updated with new categories
-  const [steps, setSteps] = useState([
-    { id: 'git', label: 'Git Status', icon: <GitBranch size={16} />, status: 'idle' as ScanStepStatus, issueCount: 0 },
-    { id: 'filesystem', label: 'File System', icon: <FolderOpen size={16} />, status: 'idle' as ScanStepStatus, issueCount: 0 },
-    { id: 'assets', label: 'Assets', icon: <ImageIcon size={16} />, status: 'idle' as ScanStepStatus, issueCount: 0 },
-    { id: 'orphans', label: 'Orphans', icon: <Link2 size={16} />, status: 'idle' as ScanStepStatus, issueCount: 0 },
-    { id: 'dependencies', label: 'Dependencies', icon: <Package size={16} />, status: 'idle' as ScanStepStatus, issueCount: 0 },
-    { id: 'licenses', label: 'Licenses', icon: <Scale size={16} />, status: 'idle' as ScanStepStatus, issueCount: 0 },
-    { id: 'security', label: 'Security', icon: <Shield size={16} />, status: 'idle' as ScanStepStatus, issueCount: 0 },
-    { id: 'env', label: 'Env Check', icon: <Shield size={16} />, status: 'idle' as ScanStepStatus, issueCount: 0 },
-    { id: 'seo', label: 'SEO', icon: <Search size={16} />, status: 'idle' as ScanStepStatus, issueCount: 0 },
-    { id: 'accessibility', label: 'A11y', icon: <Eye size={16} />, status: 'idle' as ScanStepStatus, issueCount: 0 },
-    { id: 'code-quality', label: 'Code Quality', icon: <Code size={16} />, status: 'idle' as ScanStepStatus, issueCount: 0 },
-    { id: 'performance', label: 'Performance', icon: <Zap size={16} />, status: 'idle' as ScanStepStatus, issueCount: 0 },
-    { id: 'build', label: 'Build', icon: <PlayCircle size={16} />, status: 'idle' as ScanStepStatus, issueCount: 0 },
-  ]);
+  // Scan Steps State - one step per rule category
+  const [steps, setSteps] = useState(() => CATEGORIES.map(category => ({
+    id: category.id,
+    label: category.stepLabel,
+    icon: categoryIcons[category.id],
+    status: 'idle' as ScanStepStatus,
+    issueCount: 0
+  })));
 
   const runScan = async () => {
     const scanStartTime = performance.now();
     logger.scanStart(scanPath);
     logger.userAction('scan-initiated', 'Home', { scanPath });
     
+    const abortController = new AbortController();
+    scanAbortRef.current = abortController;
     setIsScanning(true);
     setReport(null);
+    setLiveIssues([]);
     setSelectedIssue(null);
     setResolvedProjectRoot('');
     setRootSignature(null);
@@ -86,99 +140,104 @@ export default function Home() {
     logger.info('component', 'Scan steps reset', 'Home');
 
     try {
-      // Simulate step-by-step progress for visual feedback
-      const updateStep = (id: string, status: ScanStepStatus) => {
-        setSteps(prev => prev.map(s => s.id === id ? { ...s, status } : s));
-        logger.scanStep(id, status);
+      const updateStep = (id: string, status: ScanStepStatus, issueCount?: number) => {
+        setSteps(prev => prev.map(s => s.id === id ? { ...s, status, issueCount: issueCount ?? s.issueCount } : s));
+        logger.scanStep(id, status, issueCount);
       };
 
-      updateStep('git', 'running');
-      // Removed initial delay - API call starts immediately
-
-      // Start actual fetch
       const sanitizedPath = scanPath.trim();
-      logger.apiCall('POST', '/api/scan', { path: sanitizedPath || '.' });
+      logger.apiCall('POST', '/api/scan/stream', { path: sanitizedPath || '.' });
       const apiStartTime = performance.now();
-      const res = await fetch('/api/scan', {
+      const res = await fetch('/api/scan/stream', {
         method: 'POST',
         headers: getApiHeaders(),
-        body: JSON.stringify({ path: sanitizedPath || '.' })
+        body: JSON.stringify({ path: sanitizedPath || '.' }),
+        signal: abortController.signal
       });
-      const apiDuration = performance.now() - apiStartTime;
 
-      // Handle error responses
+      // Auth and path errors arrive as JSON before the stream starts
       if (!res.ok) {
         const errorData = await res.json();
-        const errorMessage = errorData.details || errorData.error || 'Scan failed';
-        const errorType = errorData.type || 'UNKNOWN';
-
-        logger.apiError('POST', '/api/scan', errorData);
+        logger.apiError('POST', '/api/scan/stream', errorData);
         logger.scanError(errorData);
-
-        // User-friendly error messages
-        let userMessage = errorMessage;
-        if (errorType === 'PATH_NOT_FOUND') {
-          userMessage = `Path not found: ${errorData.path || scanPath}`;
-        } else if (errorType === 'PERMISSION_DENIED') {
-          userMessage = 'Permission denied. Try running as administrator or choose a different path.';
-        } else if (errorType === 'SECURITY_ERROR') {
-          userMessage = errorMessage + ' Please choose a project directory.';
-        } else if (errorType === 'VALIDATION_ERROR') {
-          userMessage = errorMessage;
-        }
-
-        alert(`Scan Error:\n\n${userMessage}`);
+        alert(`Scan Error:\n\n${describeScanError(errorData, scanPath)}`);
         setSteps(s => s.map(step => step.status === 'running' ? { ...step, status: 'failed' } : step));
         return;
       }
 
-      const data: ScanReport = await res.json();
-      logger.apiSuccess('POST', '/api/scan', data, apiDuration);
-      logger.info('scan', `Scan API returned ${data.issues.length} issues`, 'Home', {
-        issueCount: data.issues.length,
-        project: data.project,
-        filesScanned: data.stats.filesScanned
+      let progress = createProgressState();
+      // Assigned from the event callback, so declared with explicit types to avoid narrowing to null
+      let data = null as ScanReport | null;
+      let streamError = null as ScanErrorData | null;
+
+      await readServerSentEvents(res, (event, payload) => {
+        if (event === 'progress') {
+          const progressEvent = JSON.parse(payload) as ScanProgressEvent;
+          progress = applyProgressEvent(progress, progressEvent);
+          if (progressEvent.type === 'phase-started') {
+            progressEvent.phase.categories.forEach(category => updateStep(category, 'running'));
+          } else if (progressEvent.type === 'phase-finished') {
+            progressEvent.phase.categories.forEach(category =>
+              updateStep(category, 'completed', progress.issuesByCategory[category] || 0)
+            );
+          }
+        } else if (event === 'issues') {
+          const { issues } = JSON.parse(payload) as { issues: Issue[] };
+          setLiveIssues(prev => [...prev, ...issues]);
+        } else if (event === 'report') {
+          data = JSON.parse(payload) as ScanReport;
+        } else if (event === 'error') {
+          streamError = JSON.parse(payload) as ScanErrorData;
+        }
       });
+      const apiDuration = performance.now() - apiStartTime;
 
-      // Update steps sequentially for effect (reduced delay for better performance)
-      const categories = ['git', 'filesystem', 'assets', 'orphans', 'dependencies', 'licenses', 'security', 'env', 'seo', 'accessibility', 'code-quality', 'performance', 'build'];
+      if (streamError) {
+        logger.apiError('POST', '/api/scan/stream', streamError);
+        logger.scanError(streamError);
+        alert(`Scan Error:\n\n${describeScanError(streamError, scanPath)}`);
+        setSteps(s => s.map(step => step.status === 'running' ? { ...step, status: 'failed' } : step));
+        return;
+      }
+      if (!data) {
+        throw new Error('Scan stream ended before the report arrived');
+      }
+      const finalReport = data;
 
-      // Batch update all steps at once for better performance
-      const stepUpdates = categories.map(cat => {
-        const count = data.issues.filter(i => i.category === cat).length;
-        return { id: cat, count };
+      logger.apiSuccess('POST', '/api/scan/stream', finalReport, apiDuration);
+      logger.info('scan', `Scan API returned ${finalReport.issues.length} issues`, 'Home', {
+        issueCount: finalReport.issues.length,
+        project: finalReport.project,
+        filesScanned: finalReport.stats.filesScanned
       });
 
-      // Update steps with progressive delay for visual feedback
-      for (let i = 0; i < categories.length; i++) {
-        const cat = categories[i];
-        updateStep(cat, 'running');
-        
-        // Progressive delay: first steps slower, later steps faster
-        let delay = 40;
-        if (i < 3) delay = 30; // First 3 steps: 30ms
-        else if (i < 10) delay = 20; // Middle steps: 20ms
-        else delay = 10; // Last steps: 10ms
-        
-        await new Promise(r => setTimeout(r, delay));
-        const count = stepUpdates[i].count;
-        setSteps(prev => prev.map(s => s.id === cat ? { ...s, status: 'completed', issueCount: count } : s));
-        logger.scanStep(cat, 'completed', count);
-      }
+      // Final counts reflect suppressions; categories without enabled rules are marked done too
+      setSteps(prev => prev.map(step => ({
+        ...step,
+        status: 'completed',
+        issueCount: finalReport.issues.filter(i => i.category === step.id).length
+      })));
 
-      setReport(data);
-      setResolvedProjectRoot(data.rootPath || '');
-      setRootSignature(data.rootSignature || null);
-      logger.stateChange('Home', 'report', null, data);
+      setReport(finalReport);
+      setResolvedProjectRoot(finalReport.rootPath || '');
+      setRootSignature(finalReport.rootSignature || null);
+      logger.stateChange('Home', 'report', null, finalReport);
 
       const totalDuration = performance.now() - scanStartTime;
-      logger.scanComplete(data.issues.length, totalDuration);
+      logger.scanComplete(finalReport.issues.length, totalDuration);
       logger.performance('full-scan', totalDuration, 'Home', {
-        issueCount: data.issues.length,
-        categoriesProcessed: categories.length
+        issueCount: finalReport.issues.length,
+        categoriesProcessed: CATEGORIES.length
       });
 
     } catch (error: unknown) {
+      if (abortController.signal.aborted) {
+        logger.info('scan', 'Scan cancelled by user', 'Home');
+        setLiveIssues([]);
+        setSteps(s => s.map(step => step.status === 'running' ? { ...step, status: 'idle' } : step));
+        return;
+      }
+
       const { message, stack } = getErrorDetails(error);
       logger.error('scan', 'Scan failed with exception', 'Home', { 
         error: message,
@@ -191,11 +250,17 @@ export default function Home() {
 
       setSteps(s => s.map(step => step.status === 'running' ? { ...step, status: 'failed' } : step));
     } finally {
+      scanAbortRef.current = null;
       setIsScanning(false);
       logger.stateChange('Home', 'isScanning', true, false);
     }
   };
 
+  const cancelScan = () => {
+    logger.userAction('scan-cancelled', 'Home', { scanPath });
+    scanAbortRef.current?.abort();
+  };
+
   const handleExport = () => {
     if (!report) {
       logger.warn('component', 'Export attempted but no report available', 'Home');
@@ -222,87 +287,16 @@ export default function Home() {
     logger.info('component', 'Report exported', 'Home', { filename, size: jsonString.length });
   };
 
-  // Derived state for IssueMap
-  const categories: IssueMapCategory[] = [
-    {
-      id: 'git',
-      label: 'Git',
-      count: report?.issues.filter(i => i.category === 'git').length || 0,
-      severity: report?.issues.some(i => i.category === 'git' && i.severity === 'error') ? 'high' : 'medium'
-    },
-    {
-      id: 'filesystem',
-      label: 'File System',
-      count: report?.issues.filter(i => i.category === 'filesystem').length || 0,
-      severity: report?.issues.some(i => i.category === 'filesystem' && i.severity === 'error') ? 'high' : 'low'
-    },
-    {
-      id: 'assets',
-      label: 'Assets',
-      count: report?.issues.filter(i => i.category === 'assets').length || 0,
-      severity: 'low'
-    },
-    {
-      id: 'orphans',
-      label: 'Orphans',
-      count: report?.issues.filter(i => i.category === 'orphans').length || 0,
-      severity: 'medium'
-    },
-    {
-      id: 'dependencies',
-      label: 'Dependencies',
-      count: report?.issues.filter(i => i.category === 'dependencies').length || 0,
-      severity: 'high'
-    },
-    {
-      id: 'licenses',
-      label: 'Licenses',
-      count: report?.issues.filter(i => i.category === 'licenses').length || 0,
-      severity: 'high'
-    },
-    {
-      id: 'security',
-      label: 'Security',
-      count: report?.issues.filter(i => i.category === 'security').length || 0,
-      severity: 'high'
-    },
-    {
-      id: 'env',
-      label: 'Env',
-      count: report?.issues.filter(i => i.category === 'env').length || 0,
-      severity: 'high'
-    },
-    {
-      id: 'seo',
-      label: 'SEO',
-      count: report?.issues.filter(i => i.category === 'seo').length || 0,
-      severity: 'medium'
-    },
-    {
-      id: 'accessibility',
-      label: 'A11y',
-      count: report?.issues.filter(i => i.category === 'accessibility').length || 0,
-      severity: 'medium'
-    },
-    {
-      id: 'code-quality',
-      label: 'Code Quality',
-      count: report?.issues.filter(i => i.category === 'code-quality').length || 0,
-      severity: 'medium'
-    },
-    {
-      id: 'performance',
-      label: 'Performance',
-      count: report?.issues.filter(i => i.category === 'performance').length || 0,
-      severity: 'medium'
-    },
-    {
-      id: 'build',
-      label: 'Build',
-      count: report?.issues.filter(i => i.category === 'build').length || 0,
-      severity: 'none'
-    },
-  ];
+  // Derived state for IssueMap; streamed issues fill in until the report arrives
+  const visibleIssues = report?.issues ?? liveIssues;
+  const health = report?.stats.health ?? computeHealthScore(visibleIssues, report?.config?.scoring);
+  const categories: IssueMapCategory[] = CATEGORIES.map(category => ({
+    id: category.id,
+    label: category.label,
+    count: visibleIssues.filter(i => i.category === category.id).length,
+    severity: getScoreSeverity(health.categories[category.id]),
+    score: health.categories[category.id]
+  }));
 
   return (
     <div className="app-layout">
@@ -310,9 +304,11 @@ export default function Home() {
         projectName={report?.project || 'Sanity Gate'}
         isScanning={isScanning}
         onScan={runScan}
+        onCancel={cancelScan}
         scanPath={scanPath}
         onPathChange={setScanPath}
         onExport={handleExport}
+        onCompare={() => setShowCompare(true)}
         hasReport={!!report}
       />
 
@@ -341,6 +337,8 @@ export default function Home() {
                 }}
               />
             </div>
+
+            <HealthTrend report={report} />
           </div>
 
           {/* Bottom Panel */}
@@ -350,7 +348,8 @@ export default function Home() {
         {/* Right Sidebar: Issue Stack */}
         <div style={{ height: '100%', overflow: 'hidden' }}>
           <IssueStack
-            issues={report?.issues || []}
+            issues={visibleIssues}
+            isLive={isScanning && !report}
             filter={selectedCategory}
             onFilterChange={(category) => {
               logger.userAction('filter-issues', 'Home', { category });
@@ -381,6 +380,17 @@ export default function Home() {
           }}
         />
       )}
+
+      {/* Report Compare Modal */}
+      {showCompare && (
+        <ReportCompare
+          currentReport={report}
+          onClose={() => {
+            logger.userAction('close-report-compare', 'Home');
+            setShowCompare(false);
+          }}
+        />
+      )}
     </div>
   );
 }
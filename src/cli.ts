@@ -5,8 +5,25 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
+import { isAbortError } from './lib/abort';
+import { assertScanReport, compareReports } from './lib/compare';
+import { killRunningCommands } from './lib/exec';
 import { scanProject } from './lib/scan';
-import { formatTable, formatJSON } from './lib/formatters';
+import { fixProject } from './lib/fix';
+import { generateEnvExample, writeEnvExample } from './lib/env-example';
+import { createBaseline, writeBaseline } from './lib/baseline';
+import {
+  formatTable,
+  formatJSON,
+  formatProgressLine,
+  formatComparisonTable,
+  formatComparisonMarkdown,
+  formatFixSummary,
+  formatFixDiff
+} from './lib/formatters';
+import { createReportStore } from './lib/report-store';
+import { applyProgressEvent, createProgressState } from './lib/progress';
+import type { LogPayload, ScanProgressEvent, ScanReport } from './lib/types';
 import { resolveScanTarget } from './utils/path-utils';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -41,7 +58,26 @@ program
   .argument('[path]', 'Path to project directory (defaults to current directory)')
   .option('-j, --json', 'Output as JSON')
   .option('-o, --output <file>', 'Save report to file')
-.action(async (projectPath: string | undefined, options: { json?: boolean; output?: string }) => {
+  .option('-c, --config <file>', 'Config file to use instead of sanity-gate.config.json / .sanitygaterc in the project')
+  .option('--show-suppressed', 'List issues silenced by sanity-gate-disable comments')
+  .option('--update-baseline', 'Record all current issues in .sanity-gate-baseline.json')
+  .option('--no-baseline', 'Ignore .sanity-gate-baseline.json and treat every issue as new')
+  .option('--no-cache', 'Re-run every rule instead of reusing results from .sanity-gate/cache')
+  .option('--concurrency <n>', 'Worker threads for content analysis (defaults to the CPU count)')
+  .option('--save', 'Save the report to the report history shared with the web UI')
+  .option('--pin-versions', 'Before scanning, pin ^/~/*/latest ranges in package.json to the versions in the lockfile')
+.action(async (projectPath: string | undefined, options: {
+    json?: boolean;
+    output?: string;
+    config?: string;
+    showSuppressed?: boolean;
+    updateBaseline?: boolean;
+    baseline: boolean;
+    cache: boolean;
+    concurrency?: string;
+    save?: boolean;
+    pinVersions?: boolean;
+  }) => {
     try {
       await loadEnvFiles();
       // Use current directory if path not provided
@@ -68,22 +104,95 @@ program
         process.exit(1);
       }
 
+      const concurrency = options.concurrency === undefined ? undefined : Number(options.concurrency);
+      if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+        process.stderr.write(`Error: --concurrency must be a positive integer, got: ${options.concurrency}\n`);
+        process.exit(1);
+      }
+
       // Show progress
       process.stderr.write(`Scanning ${resolvedPath}...\n`);
 
-      // Simple logger for CLI
-      const logger = (level: string, category: string, message: string) => {
-        if (level === 'info' && category === 'scan' && message.includes('completed')) {
-          // Only show completion messages
-          process.stderr.write(`  - ${message}\n`);
+      // Live progress line, redrawn in place on terminals
+      const showProgress = Boolean(process.stderr.isTTY);
+      let progress = createProgressState();
+      const clearProgress = () => {
+        if (showProgress) process.stderr.write('\r\x1b[2K');
+      };
+      const onProgress = (event: ScanProgressEvent) => {
+        progress = applyProgressEvent(progress, event);
+        if (showProgress) process.stderr.write(`\r\x1b[2K  ${formatProgressLine(progress)}`);
+      };
+
+      // Warnings and errors are printed above the progress line
+      const logger = (level: string, category: string, message: string, data?: LogPayload) => {
+        if (level === 'warn' || level === 'error') {
+          clearProgress();
+          process.stderr.write(`  ${level === 'error' ? 'x' : '!'} ${message}${data ? ` ${JSON.stringify(data)}` : ''}\n`);
         }
       };
 
+      // First Ctrl+C cancels the scan (stopping git/tsc child processes), a second one exits immediately
+      const abortController = new AbortController();
+      const onInterrupt = () => {
+        if (abortController.signal.aborted) {
+          // Exiting without waiting for the abort: stop git/tsc ourselves or their process groups outlive us
+          killRunningCommands();
+          process.exit(130);
+        }
+        clearProgress();
+        process.stderr.write('  - Cancelling scan...\n');
+        abortController.abort();
+      };
+      process.on('SIGINT', onInterrupt);
+      const configPath = options.config ? path.resolve(process.cwd(), options.config) : undefined;
+
+      // Edits package.json in place (formatting kept), so the report already reflects the pinned versions.
+      // A dirty tree (or no git repository) skips pinning with a warning; the scan still runs.
+      if (options.pinVersions) {
+        try {
+          const pinned = await fixProject(resolvedPath, logger, {
+            types: ['UNPINNED_VERSION'],
+            configPath,
+            useCache: options.cache,
+            signal: abortController.signal
+          });
+          process.stderr.write(`  - Pinned ${pinned.fixed.length} version(s) in package.json` +
+            `${pinned.skipped.length > 0 ? `; ${pinned.skipped.length} without a version to pin to` : ''}\n`);
+        } catch (error: unknown) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (!/^(?:DIRTY_TREE|NO_GIT_REPOSITORY): /.test(message)) throw error;
+          process.stderr.write(`  ! Skipped pinning versions: ${message.replace(/^[A-Z_]+: /, '')}` +
+            ' (sanity-gate fix --type UNPINNED_VERSION --force pins anyway)\n');
+        }
+      }
+
       // Run scan
-      const report = await scanProject(resolvedPath, logger);
+      const report = await scanProject(resolvedPath, logger, {
+        signal: abortController.signal,
+        configPath,
+        useBaseline: options.baseline && !options.updateBaseline,
+        useCache: options.cache,
+        concurrency,
+        onProgress
+      }).finally(() => process.off('SIGINT', onInterrupt));
+      clearProgress();
+      process.stderr.write(`  - Scan completed in ${(progress.elapsedMs / 1000).toFixed(1)}s with ${report.issues.length} issue(s)\n`);
+
+      if (options.updateBaseline) {
+        const baselinePath = await writeBaseline(resolvedPath, createBaseline(report.issues));
+        process.stderr.write(`Baseline with ${report.issues.length} issue(s) written to: ${baselinePath}\n`);
+      }
+
+      if (options.save) {
+        const summary = await createReportStore().save(report);
+        process.stderr.write(`Report saved to history as ${summary.id}\n`);
+      }
 
       // Format output
-      const output = options.json ? formatJSON(report) : formatTable(report);
+      const output = options.json
+        ? formatJSON(report)
+        : formatTable(report, { showSuppressed: options.showSuppressed });
 
       // Output or save to file
       if (options.output) {
@@ -93,12 +202,22 @@ program
         process.stdout.write(`${output}\n`);
       }
 
-      // Exit with appropriate code
-      const hasErrors = report.issues.some(i => i.severity === 'error' || i.severity === 'critical');
+      // Exit with appropriate code; baselined issues never fail the gate
+      if (options.updateBaseline) {
+        process.exit(0);
+      }
+      const hasErrors = report.issues.some(i =>
+        i.baselineStatus !== 'baselined' && (i.severity === 'error' || i.severity === 'critical')
+      );
       process.exit(hasErrors ? 1 : 0);
     } catch (error: unknown) {
+      if (isAbortError(error)) {
+        process.stderr.write(`${process.stderr.isTTY ? '\r\x1b[2K' : ''}Scan cancelled\n`);
+        process.exit(130);
+      }
       const message = error instanceof Error ? error.message : String(error);
-      process.stderr.write(`Error: ${message}\n`);
+      // Start on a fresh line in case a progress line is showing
+      process.stderr.write(`${process.stderr.isTTY ? '\r\x1b[2K' : ''}Error: ${message}\n`);
       if (error instanceof Error && error.stack && process.env.DEBUG) {
         process.stderr.write(`${error.stack}\n`);
       }
@@ -106,5 +225,172 @@ program
     }
   });
 
+// A report JSON file, or the id of a report saved with --save
+const loadReport = async (source: string): Promise<ScanReport> => {
+  let content: string | null = null;
+  try {
+    content = await fs.readFile(path.resolve(process.cwd(), source), 'utf-8');
+  } catch {
+    const stored = await createReportStore().get(source);
+    if (stored) return stored;
+    throw new Error(`No report file or saved report found: ${source}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error(`${source} is not valid JSON`);
+  }
+  assertScanReport(data, source);
+  return data;
+};
+
+const DIFF_FORMATS = ['table', 'json', 'markdown'];
+
+program
+  .command('diff')
+  .description('Compare two reports: new, resolved and severity-changed issues and stat deltas')
+  .argument('<old>', 'Older report (JSON file or saved report id)')
+  .argument('<new>', 'Newer report (JSON file or saved report id)')
+  .option('-f, --format <format>', `Output format: ${DIFF_FORMATS.join(', ')}`, 'table')
+  .option('-o, --output <file>', 'Save the comparison to file')
+  .action(async (oldSource: string, newSource: string, options: { format: string; output?: string }) => {
+    try {
+      if (!DIFF_FORMATS.includes(options.format)) {
+        process.stderr.write(`Error: --format must be one of ${DIFF_FORMATS.join(', ')}, got: ${options.format}\n`);
+        process.exit(1);
+      }
+
+      const comparison = compareReports(await loadReport(oldSource), await loadReport(newSource));
+      const output = options.format === 'json'
+        ? JSON.stringify(comparison, null, 2)
+        : options.format === 'markdown'
+          ? formatComparisonMarkdown(comparison)
+          : formatComparisonTable(comparison);
+
+      if (options.output) {
+        await fs.writeFile(options.output, output, 'utf-8');
+        process.stdout.write(`Comparison saved to: ${options.output}\n`);
+      } else {
+        process.stdout.write(`${output}\n`);
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      process.stderr.write(`Error: ${message.replace(/^VALIDATION_ERROR: /, '')}\n`);
+      process.exit(1);
+    }
+  });
+
+const FIX_FORMATS = ['list', 'diff', 'json'];
+
+program
+  .command('fix')
+  .description('Fix mechanical findings: delete stray files and empty directories, remove unused dependencies, pin versions')
+  .argument('[path]', 'Path to project directory (defaults to current directory)')
+  .option('--dry-run', 'Show what would change without touching any file')
+  .option('-f, --format <format>', `Output format: ${FIX_FORMATS.join(', ')}`, 'list')
+  .option('--issue <ids...>', 'Only fix the issues with these ids')
+  .option('--type <types...>', 'Only fix issues of these types (e.g. ZERO_BYTE_FILE UNUSED_DEP)')
+  .option('--force', 'Apply fixes even when the git working tree has uncommitted changes or there is no git repository')
+  .option('-c, --config <file>', 'Config file to use instead of sanity-gate.config.json / .sanitygaterc in the project')
+  .option('--no-cache', 'Re-run every rule instead of reusing results from .sanity-gate/cache')
+  .action(async (projectPath: string | undefined, options: {
+    dryRun?: boolean;
+    format: string;
+    issue?: string[];
+    type?: string[];
+    force?: boolean;
+    config?: string;
+    cache: boolean;
+  }) => {
+    try {
+      if (!FIX_FORMATS.includes(options.format)) {
+        process.stderr.write(`Error: --format must be one of ${FIX_FORMATS.join(', ')}, got: ${options.format}\n`);
+        process.exit(1);
+      }
+
+      await loadEnvFiles();
+      const resolvedPath = resolveScanTarget(projectPath, {
+        baseDir: process.cwd(),
+        workspaceRoot: process.env.SANITY_GATE_ROOT,
+        enforceWorkspaceRoot: (process.env.SANITY_GATE_ENFORCE_ROOT || '').toLowerCase() === 'true'
+      });
+
+      const abortController = new AbortController();
+      const onInterrupt = () => {
+        if (abortController.signal.aborted) {
+          killRunningCommands();
+          process.exit(130);
+        }
+        process.stderr.write('  - Cancelling...\n');
+        abortController.abort();
+      };
+      process.on('SIGINT', onInterrupt);
+
+      process.stderr.write(`Looking for fixable issues in ${resolvedPath}...\n`);
+      const result = await fixProject(resolvedPath, undefined, {
+        issueIds: options.issue,
+        types: options.type,
+        dryRun: options.dryRun,
+        force: options.force,
+        configPath: options.config ? path.resolve(process.cwd(), options.config) : undefined,
+        useCache: options.cache,
+        signal: abortController.signal
+      }).finally(() => process.off('SIGINT', onInterrupt));
+
+      const output = options.format === 'json'
+        ? JSON.stringify(result, null, 2)
+        : options.format === 'diff'
+          ? formatFixDiff(result)
+          : formatFixSummary(result);
+      if (output) process.stdout.write(`${output}\n`);
+      process.exit(0);
+    } catch (error: unknown) {
+      if (isAbortError(error)) {
+        process.stderr.write('Fix cancelled\n');
+        process.exit(130);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      process.stderr.write(`Error: ${message.replace(/^(?:VALIDATION_ERROR|DIRTY_TREE|NO_GIT_REPOSITORY): /, '')}\n`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('env-example')
+  .description('Generate .env.example from the environment variables the code reads')
+  .argument('[path]', 'Path to project directory (defaults to current directory)')
+  .option('-w, --write', 'Write the file into the project instead of printing it')
+  .option('-c, --config <file>', 'Config file to use instead of sanity-gate.config.json / .sanitygaterc in the project')
+  .action(async (projectPath: string | undefined, options: { write?: boolean; config?: string }) => {
+    try {
+      await loadEnvFiles();
+      const resolvedPath = resolveScanTarget(projectPath, {
+        baseDir: process.cwd(),
+        workspaceRoot: process.env.SANITY_GATE_ROOT,
+        enforceWorkspaceRoot: (process.env.SANITY_GATE_ENFORCE_ROOT || '').toLowerCase() === 'true'
+      });
+
+      const generated = await generateEnvExample(resolvedPath, undefined, {
+        configPath: options.config ? path.resolve(process.cwd(), options.config) : undefined
+      });
+      if (generated.removed.length > 0) {
+        process.stderr.write(`Dropped ${generated.removed.length} variable(s) no longer read by the code: ${generated.removed.join(', ')}\n`);
+      }
+
+      if (options.write) {
+        const target = await writeEnvExample(resolvedPath, generated);
+        process.stderr.write(`${generated.variables.length} variable(s) written to: ${target}\n`);
+      } else {
+        process.stdout.write(generated.content);
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      process.stderr.write(`Error: ${message}\n`);
+      process.exit(1);
+    }
+  });
+
 // Parse arguments
 program.parse();
@@ -142,14 +142,21 @@ export default function FilePreview({ issue, projectRoot, projectSignature, onCl
         };
     }, [issue, projectRoot, projectSignature]);
 
-    // Scroll to relevant line when content loads
+    // Scroll the offending range into view when content loads
     useEffect(() => {
-        if (fileContent && scrollRef.current) {
-            // Try to find the line with the issue (simple heuristic)
-            // For now, scroll to top, but we could enhance this to find specific lines
+        if (!fileContent || !scrollRef.current) return;
+        const startLine = issue?.location?.startLine;
+        const target = startLine
+            ? scrollRef.current.querySelector<HTMLElement>(`[data-line="${startLine}"]`)
+            : null;
+        if (target) {
+            const container = scrollRef.current;
+            const offset = target.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop;
+            container.scrollTop = Math.max(0, offset - container.clientHeight / 3);
+        } else {
             scrollRef.current.scrollTop = 0;
         }
-    }, [fileContent]);
+    }, [fileContent, issue]);
 
     if (!issue) return null;
 
@@ -174,6 +181,7 @@ export default function FilePreview({ issue, projectRoot, projectSignature, onCl
                                 color: 'var(--text-main)'
                             }}>
                                 {issue.path || 'File Preview'}
+                                {issue.location && `:${issue.location.startLine}:${issue.location.startColumn}`}
                             </div>
                             <div style={{ 
                                 fontSize: '0.7rem',
@@ -250,14 +258,17 @@ export default function FilePreview({ issue, projectRoot, projectSignature, onCl
                         >
                             {fileContent.lines.map((line, index) => {
                                 const lineNumber = index + 1;
-                                // Highlight lines that might be relevant (simple heuristic)
-                                // You could enhance this to parse the issue message for line numbers
-                                const isHighlighted = issue.snippet && 
-                                    line.includes(issue.snippet.split('\n')[0]?.trim() || '');
+                                const location = issue.location;
+                                const isHighlighted = !!location &&
+                                    lineNumber >= location.startLine && lineNumber <= location.endLine;
+                                // Column range of the issue on this line (end column is exclusive)
+                                const rangeStart = isHighlighted && lineNumber === location.startLine ? location.startColumn - 1 : 0;
+                                const rangeEnd = isHighlighted && lineNumber === location.endLine ? location.endColumn - 1 : line.length;
 
                                 return (
                                     <div
                                         key={index}
+                                        data-line={lineNumber}
                                         style={{
                                             display: 'flex',
                                             padding: '0.25rem 0',
@@ -291,7 +302,19 @@ export default function FilePreview({ issue, projectRoot, projectSignature, onCl
                                                 overflowWrap: 'break-word'
                                             }}
                                         >
-                                            {line || ' '}
+                                            {isHighlighted && rangeEnd > rangeStart ? (
+                                                <>
+                                                    {line.slice(0, rangeStart)}
+                                                    <mark style={{
+                                                        background: 'rgba(59, 130, 246, 0.35)',
+                                                        color: 'inherit',
+                                                        borderRadius: '2px'
+                                                    }}>
+                                                        {line.slice(rangeStart, rangeEnd)}
+                                                    </mark>
+                                                    {line.slice(rangeEnd)}
+                                                </>
+                                            ) : (line || ' ')}
                                         </div>
                                     </div>
                                 );
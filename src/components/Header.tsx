@@ -1,20 +1,22 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { Scan, Zap, ChevronDown, Clock, Folder, Download } from 'lucide-react';
+import { Scan, Zap, ChevronDown, Clock, Folder, Download, X, GitCompare } from 'lucide-react';
 import { logger } from '@/utils/logger';
 
 interface HeaderProps {
     projectName: string;
     isScanning: boolean;
     onScan: () => void;
+    onCancel?: () => void;
     scanPath: string;
     onPathChange: (path: string) => void;
     onExport?: () => void;
+    onCompare?: () => void;
     hasReport?: boolean;
 }
 
-export default function Header({ projectName, isScanning, onScan, scanPath, onPathChange, onExport, hasReport }: HeaderProps) {
+export default function Header({ projectName, isScanning, onScan, onCancel, scanPath, onPathChange, onExport, onCompare, hasReport }: HeaderProps) {
     const [showRecent, setShowRecent] = useState(false);
     const [recentPaths, setRecentPaths] = useState<string[]>([]);
     const [storageError, setStorageError] = useState<string | null>(null);
@@ -214,6 +216,26 @@ export default function Header({ projectName, isScanning, onScan, scanPath, onPa
 
             {/* Actions */}
             <div style={{ display: 'flex', gap: '0.5rem' }}>
+                {onCompare && (
+                    <button
+                        onClick={() => {
+                            logger.userAction('compare-button-clicked', 'Header');
+                            onCompare();
+                        }}
+                        disabled={isScanning}
+                        className="btn-scan"
+                        style={{
+                            background: 'var(--bg-panel)',
+                            border: '1px solid var(--border-subtle)',
+                            color: 'var(--text-main)'
+                        }}
+                        title="Compare Reports"
+                    >
+                        <GitCompare size={14} />
+                        <span>Compare</span>
+                    </button>
+                )}
+
                 {hasReport && onExport && (
                     <button
                         onClick={() => {
@@ -247,6 +269,25 @@ export default function Header({ projectName, isScanning, onScan, scanPath, onPa
                         </>
                     )}
                 </button>
+
+                {isScanning && onCancel && (
+                    <button
+                        onClick={() => {
+                            logger.userAction('cancel-button-clicked', 'Header', { scanPath });
+                            onCancel();
+                        }}
+                        className="btn-scan"
+                        style={{
+                            background: 'var(--bg-panel)',
+                            border: '1px solid var(--border-subtle)',
+                            color: 'var(--text-main)'
+                        }}
+                        title="Cancel Scan"
+                    >
+                        <X size={14} />
+                        <span>Cancel</span>
+                    </button>
+                )}
             </div>
         </header>
         </>
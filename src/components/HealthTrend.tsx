@@ -0,0 +1,122 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { TrendingUp } from 'lucide-react';
+import { ScanReport, StoredReportSummary } from '@/lib/scan';
+import { logger } from '@/utils/logger';
+
+interface HealthTrendProps {
+    // Saved reports of this report's project are charted; the report itself is the latest point
+    report: ScanReport | null;
+}
+
+// Saved scans shown at most, newest last
+const TREND_LIMIT = 30;
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 120;
+const CHART_PADDING = 8;
+
+const getApiHeaders = () => {
+    const headers: Record<string, string> = {};
+    if (process.env.NEXT_PUBLIC_SANITY_GATE_TOKEN) {
+        headers['x-sanity-token'] = process.env.NEXT_PUBLIC_SANITY_GATE_TOKEN;
+    }
+    return headers;
+};
+
+export default function HealthTrend({ report }: HealthTrendProps) {
+    // Saved scans of the project, oldest first
+    const [points, setPoints] = useState<StoredReportSummary[]>([]);
+    const rootPath = report?.rootPath;
+    const reportId = report?.id;
+
+    useEffect(() => {
+        if (!rootPath) return;
+        const abortController = new AbortController();
+
+        const loadHistory = async () => {
+            try {
+                const response = await fetch(
+                    `/api/reports?root=${encodeURIComponent(rootPath)}&limit=${TREND_LIMIT}`,
+                    { headers: getApiHeaders(), signal: abortController.signal }
+                );
+                if (!response.ok) throw new Error(`Could not list saved reports (${response.status})`);
+                const data = await response.json() as { reports: StoredReportSummary[] };
+                setPoints([...data.reports].reverse());
+            } catch (error: unknown) {
+                if (abortController.signal.aborted) return;
+                logger.error('component', 'Failed to load report history', 'HealthTrend', {
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            }
+        };
+        void loadHistory();
+
+        return () => abortController.abort();
+    // A new saved report (new id) adds a point
+    }, [rootPath, reportId]);
+
+    const health = report?.stats.health;
+    if (!report || !health) return null;
+
+    const scored = points.filter(summary => summary.healthScore !== undefined);
+    const previous = scored.filter(summary => summary.id !== report.id).at(-1);
+    const change = previous?.healthScore !== undefined ? health.overall - previous.healthScore : null;
+
+    const maxIssues = Math.max(1, ...points.map(summary => summary.issueCount));
+    const step = points.length > 1 ? (CHART_WIDTH - CHART_PADDING * 2) / (points.length - 1) : 0;
+    const xAt = (index: number) => CHART_PADDING + index * step;
+    const yAt = (value: number, max: number) =>
+        CHART_HEIGHT - CHART_PADDING - (value / max) * (CHART_HEIGHT - CHART_PADDING * 2);
+    const scoreLine = points
+        .map((summary, index) => summary.healthScore === undefined ? null : `${xAt(index)},${yAt(summary.healthScore, 100)}`)
+        .filter(Boolean)
+        .join(' ');
+
+    return (
+        <div style={{ padding: '0 1.5rem 1.5rem' }}>
+            <div style={{ display: 'flex', alignItems: 'baseline', gap: '0.75rem', marginBottom: '0.75rem' }}>
+                <TrendingUp size={14} color="var(--text-muted)" />
+                <span className="tile-header">Health Score</span>
+                <span className="tile-value" style={{ fontSize: '1.25rem' }}>{health.overall}</span>
+                {change !== null && change !== 0 && (
+                    <span style={{ fontSize: '0.75rem', color: change > 0 ? 'var(--success)' : 'var(--error)' }}>
+                        {change > 0 ? `+${change}` : change} since last saved scan
+                    </span>
+                )}
+            </div>
+
+            {points.length > 1 ? (
+                <svg
+                    viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+                    style={{ width: '100%', height: `${CHART_HEIGHT}px`, background: 'var(--bg-panel)', borderRadius: 'var(--radius-md)' }}
+                    role="img"
+                    aria-label={`Health score and issue count over the last ${points.length} saved scans`}
+                >
+                    {/* Issue counts as bars, scaled to the busiest scan */}
+                    {points.map((summary, index) => {
+                        const y = yAt(summary.issueCount, maxIssues);
+                        return (
+                            <rect
+                                key={summary.id}
+                                x={xAt(index) - 3}
+                                y={y}
+                                width={6}
+                                height={CHART_HEIGHT - CHART_PADDING - y}
+                                fill="var(--border-highlight)"
+                            >
+                                <title>{`${new Date(summary.timestamp).toLocaleString()}: ${summary.issueCount} issues${summary.healthScore !== undefined ? `, score ${summary.healthScore}` : ''}`}</title>
+                            </rect>
+                        );
+                    })}
+                    <polyline points={scoreLine} fill="none" stroke="var(--accent-cyan)" strokeWidth={2} />
+                </svg>
+            ) : (
+                <div style={{ fontSize: '0.75rem', color: 'var(--text-dim)' }}>
+                    The trend appears once this project has more than one saved scan.
+                </div>
+            )}
+        </div>
+    );
+}
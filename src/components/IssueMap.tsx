@@ -11,6 +11,8 @@ export interface IssueMapCategory {
     label: string;
     count: number;
     severity: IssueMapSeverity;
+    // Health score of the category, 0-100
+    score?: number;
 }
 
 interface IssueMapProps {
@@ -60,8 +62,13 @@ export default function IssueMap({ categories, selectedCategory, onSelect }: Iss
                         onSelect(newSelection);
                     }}
                 >
-                    <div className="tile-header">
+                    <div className="tile-header" style={{ display: 'flex', justifyContent: 'space-between' }}>
                         {cat.label}
+                        {cat.score !== undefined && cat.count > 0 && (
+                            <span style={{ color: 'var(--text-dim)' }} title="Health score">
+                                {cat.score}
+                            </span>
+                        )}
                     </div>
 
                     <div className="tile-value" style={{
@@ -11,6 +11,8 @@ interface IssueStackProps {
     filter: string | null;
     onFilterChange: (category: string | null) => void;
     onIssueClick?: (issue: Issue) => void;
+    // Issues are still arriving from a running scan (before suppressions are applied)
+    isLive?: boolean;
 }
 
 const severityIcons = {
@@ -31,7 +33,8 @@ export default function IssueStack({
     issues, 
     filter, 
     onFilterChange, 
-    onIssueClick 
+    onIssueClick,
+    isLive = false
 }: IssueStackProps) {
     const mountDataRef = useRef({
         totalIssues: issues.length,
@@ -135,7 +138,7 @@ export default function IssueStack({
                         textAlign: 'center', 
                         color: 'var(--text-dim)' 
                     }}>
-                        No issues found
+                        {isLive ? 'Scanning...' : 'No issues found'}
                     </div>
                 ) : (
                     filteredIssues.map((issue) => {
@@ -168,6 +171,7 @@ export default function IssueStack({
                                                     verticalAlign: 'middle'
                                                 }} />
                                                 {issue.path}
+                                                {issue.location && `:${issue.location.startLine}`}
                                             </div>
                                         )}
                                         <div className="issue-msg">
@@ -201,6 +205,19 @@ export default function IssueStack({
                                             }}>
                                                 {issue.category}
                                             </span>
+                                            {issue.baselineStatus === 'baselined' && (
+                                                <span 
+                                                    style={{ 
+                                                        marginLeft: '0.5rem', 
+                                                        fontSize: '0.7rem', 
+                                                        color: 'var(--text-dim)',
+                                                        fontStyle: 'italic'
+                                                    }}
+                                                    title="Already recorded in the project's baseline file"
+                                                >
+                                                    baseline
+                                                </span>
+                                            )}
                                         </div>
                                     </div>
                                 </div>
@@ -4,6 +4,7 @@ import { useState, useEffect, useRef, useMemo } from 'react';
 import { Copy, Check } from 'lucide-react';
 import clsx from 'clsx';
 import { ScanReport, Issue } from '@/lib/scan';
+import { CATEGORIES, RULE_CATALOG } from '@/lib/rules/catalog';
 import { logger } from '@/utils/logger';
 
 type TabKey = 'summary' | 'json' | 'prompt';
@@ -16,6 +17,7 @@ type CompactIssue = {
     severity: Issue['severity'];
     suggestedAction: string;
     path?: string;
+    line?: number;
     snippet?: string;
 };
 
@@ -42,29 +44,9 @@ interface CompactReportPayload {
     };
 }
 
-const actionMap: Record<string, string> = {
-    'EMPTY_DIR': 'delete directory',
-    'ZERO_BYTE_FILE': 'delete file',
-    'BACKUP_FILE': 'delete file',
-    'ORPHAN_ASSET': 'delete asset',
-    'ORPHAN_MODULE': 'delete file or add import',
-    'UNUSED_DEP': 'remove from package.json',
-    'UNUSED_DEV_DEP': 'remove from package.json',
-    'MISSING_DEP': 'add to package.json',
-    'UNPINNED_VERSION': 'pin version in package.json',
-    'HARDCODED_SECRET': 'move to environment variable',
-    'CONSOLE_LOG': 'remove or wrap in dev check',
-    'TODO_COMMENT': 'resolve or remove',
-    'SYNC_IO': 'convert to async',
-    'MISSING_METADATA': 'add metadata export',
-    'MISSING_ALT': 'add alt attribute',
-    'MISSING_LABEL': 'add label or aria-label',
-    'MISSING_ENV_VAR': 'add to .env file',
-    'LARGE_FILE': 'optimize or split',
-    'UNCOMMITTED_CHANGES': 'commit or stash',
-    'BUILD_FAILURE': 'fix TypeScript errors',
-    'VIRAL_LICENSE': 'review license compatibility'
-};
+const actionMap: Record<string, string> = Object.fromEntries(
+    Object.values(RULE_CATALOG).map(rule => [rule.id, rule.shortAction])
+);
 
 const getDefaultAction = (issue: Issue): string =>
     actionMap[issue.type] || 'review and fix';
@@ -79,6 +61,7 @@ const buildCompactReport = (report: ScanReport): CompactReportPayload => {
             suggestedAction: issue.suggestedAction || getDefaultAction(issue)
         };
         if (issue.path) compact.path = issue.path;
+        if (issue.location) compact.line = issue.location.startLine;
         if (issue.snippet && !issue.snippet.includes('***REDACTED***') && issue.snippet.length < 200) {
             compact.snippet = issue.snippet;
         }
@@ -152,22 +135,6 @@ const buildCompactReport = (report: ScanReport): CompactReportPayload => {
 };
 
 const buildSummaryText = (report: ScanReport): string => {
-    const categories = ['git', 'filesystem', 'assets', 'orphans', 'dependencies', 'licenses', 'security', 'env', 'seo', 'accessibility', 'code-quality', 'performance', 'build'];
-    const categoryLabels: Record<string, string> = {
-        'git': 'GIT',
-        'filesystem': 'FILESYSTEM',
-        'assets': 'ASSETS',
-        'orphans': 'ORPHAN MODULES',
-        'dependencies': 'DEPENDENCIES',
-        'licenses': 'LICENSES',
-        'security': 'SECURITY',
-        'env': 'ENVIRONMENT',
-        'seo': 'SEO',
-        'accessibility': 'ACCESSIBILITY',
-        'code-quality': 'CODE QUALITY',
-        'performance': 'PERFORMANCE',
-        'build': 'BUILD'
-    };
     const severityOrder: Issue['severity'][] = ['critical', 'error', 'warning', 'info'];
     const severityLabels: Record<Issue['severity'], string> = {
         critical: 'CRITICAL',
@@ -184,11 +151,11 @@ const buildSummaryText = (report: ScanReport): string => {
 
     let summary = `Project: ${report.project}\nTimestamp: ${report.timestamp}\n\n`;
 
-    categories.forEach(cat => {
-        const catIssues = report.issues.filter(i => i.category === cat);
+    CATEGORIES.forEach(cat => {
+        const catIssues = report.issues.filter(i => i.category === cat.id);
         if (catIssues.length === 0) return;
 
-        summary += `${categoryLabels[cat]} (${catIssues.length})\n`;
+        summary += `${cat.title.toUpperCase()} (${catIssues.length})\n`;
 
         severityOrder.forEach(sev => {
             const sevIssues = catIssues.filter(i => i.severity === sev);
@@ -198,7 +165,9 @@ const buildSummaryText = (report: ScanReport): string => {
 
             const details = sevIssues.slice(0, 3);
             details.forEach(issue => {
-                const pathInfo = issue.path ? ` [${issue.path}]` : '';
+                const pathInfo = issue.path
+                    ? ` [${issue.path}${issue.location ? `:${issue.location.startLine}` : ''}]`
+                    : '';
                 const action = issue.suggestedAction || getDefaultAction(issue);
                 summary += `    - ${issue.message}${pathInfo} -> ${action}\n`;
             });
@@ -0,0 +1,265 @@
+'use client';
+
+import { useState, useEffect, useMemo, type ChangeEvent } from 'react';
+import { X, GitCompare, Upload } from 'lucide-react';
+import { Issue, ScanReport, StoredReportSummary } from '@/lib/scan';
+import { assertScanReport, compareReports } from '@/lib/compare';
+import { logger } from '@/utils/logger';
+
+interface ReportCompareProps {
+    // Offered as a choice next to stored reports
+    currentReport: ScanReport | null;
+    onClose: () => void;
+}
+
+type Side = 'base' | 'head';
+
+const CURRENT_REPORT = 'current';
+
+const getApiHeaders = () => {
+    const headers: Record<string, string> = {};
+    if (process.env.NEXT_PUBLIC_SANITY_GATE_TOKEN) {
+        headers['x-sanity-token'] = process.env.NEXT_PUBLIC_SANITY_GATE_TOKEN;
+    }
+    return headers;
+};
+
+const getErrorMessage = (error: unknown) =>
+    (error instanceof Error ? error.message : String(error)).replace(/^VALIDATION_ERROR: /, '');
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : String(delta));
+
+// More issues is worse, so a positive delta is shown in red
+const deltaColor = (delta: number) =>
+    delta > 0 ? 'var(--error)' : delta < 0 ? 'var(--success)' : 'var(--text-muted)';
+
+const STAT_LABELS = {
+    issues: 'Total issues',
+    filesScanned: 'Files scanned',
+    orphansFound: 'Orphans',
+    unusedDeps: 'Unused deps',
+    suppressed: 'Suppressed'
+};
+
+export default function ReportCompare({ currentReport, onClose }: ReportCompareProps) {
+    const [stored, setStored] = useState<StoredReportSummary[]>([]);
+    const [reports, setReports] = useState<Record<Side, ScanReport | null>>({ base: null, head: currentReport });
+    const [selected, setSelected] = useState<Record<Side, string>>({ base: '', head: currentReport ? CURRENT_REPORT : '' });
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        logger.componentMount('ReportCompare', { hasCurrentReport: !!currentReport });
+        const abortController = new AbortController();
+
+        const loadStored = async () => {
+            try {
+                const query = currentReport?.rootPath ? `?root=${encodeURIComponent(currentReport.rootPath)}` : '';
+                const response = await fetch(`/api/reports${query}`, {
+                    headers: getApiHeaders(),
+                    signal: abortController.signal
+                });
+                if (!response.ok) throw new Error(`Could not list saved reports (${response.status})`);
+                const data = await response.json() as { reports: StoredReportSummary[] };
+                setStored(data.reports);
+            } catch (loadError: unknown) {
+                if (abortController.signal.aborted) return;
+                logger.error('component', 'Failed to list saved reports', 'ReportCompare', { error: getErrorMessage(loadError) });
+                setError(getErrorMessage(loadError));
+            }
+        };
+        void loadStored();
+
+        return () => {
+            abortController.abort();
+            logger.componentUnmount('ReportCompare');
+        };
+    }, [currentReport]);
+
+    const setSide = (side: Side, key: string, report: ScanReport | null) => {
+        setSelected(prev => ({ ...prev, [side]: key }));
+        setReports(prev => ({ ...prev, [side]: report }));
+    };
+
+    const selectStored = async (side: Side, key: string) => {
+        logger.userAction('compare-select-report', 'ReportCompare', { side, key });
+        setError(null);
+        if (!key) {
+            setSide(side, '', null);
+            return;
+        }
+        if (key === CURRENT_REPORT) {
+            setSide(side, key, currentReport);
+            return;
+        }
+        try {
+            const response = await fetch(`/api/reports/${encodeURIComponent(key)}`, { headers: getApiHeaders() });
+            if (!response.ok) throw new Error(`Could not load saved report (${response.status})`);
+            setSide(side, key, await response.json() as ScanReport);
+        } catch (loadError: unknown) {
+            setError(getErrorMessage(loadError));
+        }
+    };
+
+    const uploadReport = async (side: Side, event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        logger.userAction('compare-upload-report', 'ReportCompare', { side, file: file.name });
+        setError(null);
+        try {
+            let data: unknown;
+            try {
+                data = JSON.parse(await file.text());
+            } catch {
+                throw new Error(`${file.name} is not valid JSON`);
+            }
+            assertScanReport(data, file.name);
+            setSide(side, `upload:${file.name}`, data);
+        } catch (uploadError: unknown) {
+            setError(getErrorMessage(uploadError));
+        }
+    };
+
+    const comparison = useMemo(
+        () => (reports.base && reports.head ? compareReports(reports.base, reports.head) : null),
+        [reports]
+    );
+
+    const renderPicker = (side: Side, title: string) => {
+        const key = selected[side];
+        return (
+            <div style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                <div style={{ fontSize: '0.7rem', color: 'var(--text-dim)', textTransform: 'uppercase' }}>{title}</div>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <select
+                        className="path-input"
+                        value={key.startsWith('upload:') ? '' : key}
+                        onChange={(e) => void selectStored(side, e.target.value)}
+                        style={{ flex: 1 }}
+                        aria-label={`${title} report`}
+                    >
+                        <option value="">{key.startsWith('upload:') ? key.slice('upload:'.length) : 'Choose a report...'}</option>
+                        {currentReport && <option value={CURRENT_REPORT}>Current scan ({currentReport.issues.length} issues)</option>}
+                        {stored.map(summary => (
+                            <option key={summary.id} value={summary.id}>
+                                {summary.project} - {new Date(summary.timestamp).toLocaleString()} ({summary.issueCount} issues)
+                            </option>
+                        ))}
+                    </select>
+                    <label className="btn-scan" style={{ background: 'var(--bg-panel)', border: '1px solid var(--border-subtle)', color: 'var(--text-main)' }} title="Upload report JSON">
+                        <Upload size={14} />
+                        <input type="file" accept="application/json,.json" onChange={(e) => void uploadReport(side, e)} style={{ display: 'none' }} />
+                    </label>
+                </div>
+            </div>
+        );
+    };
+
+    const renderIssues = (title: string, issues: Issue[], color: string, describeSeverity?: (issue: Issue) => string) => {
+        if (issues.length === 0) return null;
+        return (
+            <div style={{ marginTop: '1.25rem' }}>
+                <div style={{ fontSize: '0.75rem', fontWeight: 600, color, marginBottom: '0.5rem' }}>
+                    {title} ({issues.length})
+                </div>
+                {issues.map((issue, index) => (
+                    <div key={`${issue.fingerprint}-${index}`} className="issue-item" style={{ cursor: 'default' }}>
+                        <div className="issue-content">
+                            <div className="issue-msg">{issue.message}</div>
+                            <div className="issue-path">
+                                {describeSeverity ? describeSeverity(issue) : issue.severity} - {issue.type}{issue.path ? ` - ${issue.path}` : ''}
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        );
+    };
+
+    const previousSeverity = new Map(comparison?.severityChanged.map(({ before, after }) => [after, before.severity]));
+
+    return (
+        <div
+            className="file-preview-overlay"
+            onClick={(e) => {
+                if (e.target === e.currentTarget) onClose();
+            }}
+        >
+            <div className="file-preview-modal" onClick={(e) => e.stopPropagation()}>
+                <div className="file-preview-header">
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', fontWeight: 600, fontSize: '0.9rem' }}>
+                        <GitCompare size={18} color="var(--accent-cyan)" />
+                        Compare Reports
+                    </div>
+                    <button
+                        onClick={() => {
+                            logger.userAction('close-report-compare', 'ReportCompare');
+                            onClose();
+                        }}
+                        style={{ padding: '0.5rem', background: 'transparent', border: 'none', color: 'var(--text-muted)', cursor: 'pointer' }}
+                        aria-label="Close compare view"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="file-preview-body" style={{ overflowY: 'auto', padding: '1rem 1.5rem' }}>
+                    <div style={{ display: 'flex', gap: '1rem' }}>
+                        {renderPicker('base', 'Base (older)')}
+                        {renderPicker('head', 'Head (newer)')}
+                    </div>
+
+                    {error && (
+                        <div style={{ marginTop: '1rem', color: 'var(--error)', fontSize: '0.8rem' }}>{error}</div>
+                    )}
+
+                    {!comparison && !error && (
+                        <div style={{ padding: '2rem', textAlign: 'center', color: 'var(--text-dim)' }}>
+                            Pick two saved reports, or upload exported report files, to see what changed.
+                        </div>
+                    )}
+
+                    {comparison && (
+                        <>
+                            {comparison.health && (
+                                <div style={{ marginTop: '1.25rem', fontSize: '0.8rem', color: 'var(--text-muted)' }}>
+                                    Health score {comparison.health.before} {'->'} {comparison.health.after}{' '}
+                                    <span style={{ color: deltaColor(-comparison.health.delta) }}>
+                                        ({formatDelta(comparison.health.delta)})
+                                    </span>
+                                </div>
+                            )}
+
+                            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '0.5rem', marginTop: '1.25rem' }}>
+                                {(Object.keys(STAT_LABELS) as (keyof typeof STAT_LABELS)[]).map(stat => {
+                                    const { after, delta } = comparison.stats[stat];
+                                    return (
+                                        <div key={stat} className="map-tile" style={{ cursor: 'default' }}>
+                                            <div className="tile-header">{STAT_LABELS[stat]}</div>
+                                            <div className="tile-value">{after}</div>
+                                            <div style={{ fontSize: '0.75rem', color: stat === 'issues' || stat === 'orphansFound' || stat === 'unusedDeps' ? deltaColor(delta) : 'var(--text-muted)' }}>
+                                                {formatDelta(delta)}
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+
+                            {renderIssues('New', comparison.newIssues, 'var(--error)')}
+                            {renderIssues('Resolved', comparison.resolvedIssues, 'var(--success)')}
+                            {renderIssues(
+                                'Severity changed',
+                                comparison.severityChanged.map(({ after }) => after),
+                                'var(--warning)',
+                                issue => `${previousSeverity.get(issue)} -> ${issue.severity}`
+                            )}
+                            <div style={{ marginTop: '1.25rem', fontSize: '0.75rem', color: 'var(--text-muted)' }}>
+                                {comparison.unchangedIssues.length} unchanged issue(s)
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
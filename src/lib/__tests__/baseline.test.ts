@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import { test } from 'node:test';
+import { applyBaseline, createBaseline, loadBaseline, writeBaseline } from '../baseline';
+import { createProject, createTestIssue, removeProject } from './helpers';
+
+test('baseline entries match issues by fingerprint, counted as a multiset', () => {
+  const baseline = createBaseline([
+    createTestIssue({ id: 'a', fingerprint: 'same', path: 'src/a.ts' }),
+    createTestIssue({ id: 'b', fingerprint: 'same', path: 'src/b.ts' }),
+    createTestIssue({ id: 'c', fingerprint: 'gone', path: 'src/c.ts' })
+  ]);
+  // The path changed and a third identical finding appeared
+  const issues = [
+    createTestIssue({ id: 'a', fingerprint: 'same', path: 'src/moved/a.ts' }),
+    createTestIssue({ id: 'b', fingerprint: 'same', path: 'src/b.ts' }),
+    createTestIssue({ id: 'd', fingerprint: 'same', path: 'src/d.ts' }),
+    createTestIssue({ id: 'e', fingerprint: 'other', path: 'src/e.ts' })
+  ];
+
+  const summary = applyBaseline(issues, baseline);
+  assert.deepEqual(issues.map(issue => issue.baselineStatus), ['baselined', 'baselined', 'new', 'new']);
+  assert.equal(summary.newIssues, 2);
+  assert.equal(summary.baselinedIssues, 2);
+  assert.deepEqual(summary.fixed.map(entry => entry.fingerprint), ['gone']);
+});
+
+test('baseline entries are sorted and use forward slashes', () => {
+  const { entries } = createBaseline([
+    createTestIssue({ id: 'b', fingerprint: '2', type: 'TODO_COMMENT', path: 'src\\z.ts' }),
+    createTestIssue({ id: 'a', fingerprint: '1', type: 'CONSOLE_LOG', path: 'src/a.ts' })
+  ]);
+  assert.deepEqual(entries.map(entry => [entry.type, entry.path]), [['CONSOLE_LOG', 'src/a.ts'], ['TODO_COMMENT', 'src/z.ts']]);
+});
+
+test('a written baseline loads back, and unsupported files are rejected', async () => {
+  const root = await createProject({});
+  try {
+    assert.equal(await loadBaseline(root), null);
+
+    const baseline = createBaseline([createTestIssue({ id: 'a', fingerprint: 'abc' })]);
+    const baselinePath = await writeBaseline(root, baseline);
+    assert.deepEqual(await loadBaseline(root), baseline);
+
+    await fs.writeFile(baselinePath, JSON.stringify({ ...baseline, version: 1 }));
+    await assert.rejects(loadBaseline(root), /BASELINE_ERROR: .* unsupported version 1/);
+    await fs.writeFile(baselinePath, '{"entries": [{}]}');
+    await assert.rejects(loadBaseline(root), /BASELINE_ERROR: .* must contain an "entries" array/);
+  } finally {
+    await removeProject(root);
+  }
+});
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { assertScanReport, compareReports } from '../compare';
+import type { HealthScore } from '../types';
+import { createTestIssue, createTestReport } from './helpers';
+
+test('issues are matched one to one by fingerprint', () => {
+  const base = createTestReport([
+    createTestIssue({ id: 'kept', fingerprint: 'a' }),
+    createTestIssue({ id: 'twice-1', fingerprint: 'b' }),
+    createTestIssue({ id: 'twice-2', fingerprint: 'b' }),
+    createTestIssue({ id: 'fixed', fingerprint: 'c' }),
+    createTestIssue({ id: 'escalated', fingerprint: 'd', severity: 'warning' })
+  ], { id: 'base-id' });
+  const head = createTestReport([
+    // Same finding after a move: only the path differs
+    createTestIssue({ id: 'kept', fingerprint: 'a', path: 'src/moved.ts' }),
+    createTestIssue({ id: 'twice-1', fingerprint: 'b' }),
+    createTestIssue({ id: 'escalated', fingerprint: 'd', severity: 'error' }),
+    createTestIssue({ id: 'added', fingerprint: 'e' })
+  ], { timestamp: '2026-01-02T00:00:00.000Z' });
+
+  const comparison = compareReports(base, head);
+  assert.deepEqual(comparison.base, { project: 'fixture', timestamp: '2026-01-01T00:00:00.000Z', id: 'base-id' });
+  assert.deepEqual(comparison.head, { project: 'fixture', timestamp: '2026-01-02T00:00:00.000Z' });
+  assert.deepEqual(comparison.newIssues.map(issue => issue.id), ['added']);
+  assert.deepEqual(comparison.resolvedIssues.map(issue => issue.id), ['twice-2', 'fixed']);
+  assert.deepEqual(comparison.unchangedIssues.map(issue => issue.id), ['kept', 'twice-1']);
+  assert.deepEqual(comparison.severityChanged.map(({ before, after }) => [before.severity, after.severity]), [['warning', 'error']]);
+});
+
+test('stats, severities and health are reported as deltas', () => {
+  const health = (overall: number): HealthScore => ({ overall, categories: {} as HealthScore['categories'] });
+  const base = createTestReport([createTestIssue({ id: 'a', fingerprint: 'a', severity: 'critical' })], {
+    stats: { filesScanned: 10, orphansFound: 2, unusedDeps: 1, suppressed: 0, health: health(70) }
+  });
+  const head = createTestReport([
+    createTestIssue({ id: 'b', fingerprint: 'b', severity: 'warning' }),
+    createTestIssue({ id: 'c', fingerprint: 'c', severity: 'warning' })
+  ], { stats: { filesScanned: 12, orphansFound: 0, unusedDeps: 1, suppressed: 3, health: health(85) } });
+
+  const { stats, severities, health: healthDelta } = compareReports(base, head);
+  assert.deepEqual(stats.issues, { before: 1, after: 2, delta: 1 });
+  assert.deepEqual(stats.filesScanned, { before: 10, after: 12, delta: 2 });
+  assert.deepEqual(stats.orphansFound, { before: 2, after: 0, delta: -2 });
+  assert.deepEqual(stats.suppressed, { before: 0, after: 3, delta: 3 });
+  assert.deepEqual(severities.critical, { before: 1, after: 0, delta: -1 });
+  assert.deepEqual(severities.warning, { before: 0, after: 2, delta: 2 });
+  assert.deepEqual(healthDelta, { before: 70, after: 85, delta: 15 });
+
+  assert.equal(compareReports(createTestReport([]), head).health, null);
+});
+
+test('reports without fingerprints match on type, path and message', () => {
+  const legacy = (id: string) => createTestIssue({ id, fingerprint: '', path: 'src/a.ts', message: 'TODO found' });
+  const comparison = compareReports(createTestReport([legacy('old')]), createTestReport([legacy('new')]));
+  assert.equal(comparison.unchangedIssues.length, 1);
+  assert.equal(comparison.newIssues.length, 0);
+});
+
+test('assertScanReport rejects data that is not a report', () => {
+  assert.doesNotThrow(() => assertScanReport(createTestReport([]), 'report.json'));
+  assert.throws(() => assertScanReport({ issues: [] }, 'other.json'), /VALIDATION_ERROR: other.json is not a Sanity Gate report/);
+  assert.throws(() => assertScanReport(null, 'null.json'), /VALIDATION_ERROR/);
+});
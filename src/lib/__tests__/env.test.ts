@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { findEnvReferences, isPublicSecretName, looksLikeSecretValue, parseEnvFile } from '../env';
+
+// Assembled at runtime so scans of this file do not read the fixtures as env reads or secrets
+const ENV = ['process', 'env'].join('.');
+const META_ENV = ['import', 'meta', 'env'].join('.');
+const CREATE_ENV = ['create', 'Env'].join('');
+
+const names = (content: string) => findEnvReferences(content).map(reference => reference.name);
+
+test('member, bracket and destructured reads are found', () => {
+  const content = [
+    `const url = ${ENV}.API_URL;`,
+    `const mode = ${ENV}.NODE_ENV;`,
+    `const key = ${ENV}['API_KEY'] ?? ${META_ENV}?.VITE_TITLE;`,
+    `const { DB_HOST, DB_PORT: port = '5432', ...rest } = ${ENV};`,
+    `const lower = ${ENV}.notAnEnvName;`
+  ].join('\n');
+  assert.deepEqual(names(content), ['API_URL', 'API_KEY', 'VITE_TITLE', 'DB_HOST', 'DB_PORT']);
+
+  const [first] = findEnvReferences(content);
+  assert.equal(content.slice(first.index, first.index + first.name.length), 'API_URL');
+});
+
+test('keys of t3-env, envalid and Zod env schemas count as reads', () => {
+  assert.deepEqual(names([
+    `export const env = ${CREATE_ENV}({`,
+    '  server: { DATABASE_URL: z.string().url(), nested: { IGNORED: 1 } },',
+    "  client: { 'NEXT_PUBLIC_SITE': z.string() },",
+    `  runtimeEnv: ${ENV}`,
+    '});'
+  ].join('\n')), ['DATABASE_URL', 'NEXT_PUBLIC_SITE']);
+
+  assert.deepEqual(names(`const env = cleanEnv(${ENV}, { PORT: port(), HOST: str() });`), ['PORT', 'HOST']);
+
+  const schema = 'const schema = z.object({ REDIS_URL: z.string() });';
+  assert.deepEqual(names(schema), []);
+  assert.deepEqual(names(`${schema}\nschema.parse(${ENV});`), ['REDIS_URL']);
+});
+
+test('.env entries keep their position, quotes and comment state', () => {
+  const entries = parseEnvFile([
+    'API_URL=https://example.test # the API',
+    '  export QUOTED="value # not a comment"',
+    '# OPTIONAL_FLAG=true',
+    '# just a comment',
+    'EMPTY='
+  ].join('\r\n'));
+
+  assert.deepEqual(entries, [
+    { key: 'API_URL', value: 'https://example.test', line: 1, column: 1, commented: false },
+    { key: 'QUOTED', value: 'value # not a comment', line: 2, column: 10, commented: false },
+    { key: 'OPTIONAL_FLAG', value: 'true', line: 3, column: 3, commented: true },
+    { key: 'EMPTY', value: '', line: 5, column: 1, commented: false }
+  ]);
+});
+
+test('secret-looking values are told apart from placeholders', () => {
+  const mixed = 'a1'.repeat(10);
+  assert.equal(looksLikeSecretValue('API_TOKEN', mixed), true);
+  assert.equal(looksLikeSecretValue('PUBLIC_LABEL', mixed), false);
+  assert.equal(looksLikeSecretValue('API_TOKEN', 'your-token-here'), false);
+  assert.equal(looksLikeSecretValue('API_TOKEN', ''), false);
+  assert.equal(looksLikeSecretValue('CLOUD_ID', ['AKIA', 'ABCDEFGHIJKLMNOP'].join('')), true);
+  assert.equal(looksLikeSecretValue('DATABASE_URL', ['postgres://app', 'hunter2@db/app'].join(':')), true);
+  assert.equal(looksLikeSecretValue('DATABASE_URL', ['postgres://app', 'password@localhost/app'].join(':')), false);
+});
+
+test('public variables named like secrets are flagged', () => {
+  assert.equal(isPublicSecretName('NEXT_PUBLIC_API_TOKEN'), true);
+  assert.equal(isPublicSecretName('VITE_DB_PASSWORD'), true);
+  assert.equal(isPublicSecretName('NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY'), false);
+  assert.equal(isPublicSecretName('NEXT_PUBLIC_KEYBOARD_LAYOUT'), false);
+  assert.equal(isPublicSecretName('API_TOKEN'), false);
+});
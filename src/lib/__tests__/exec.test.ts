@@ -0,0 +1,21 @@
+import assert from 'node:assert/strict';
+import os from 'node:os';
+import { test } from 'node:test';
+import { execCommand, killRunningCommands } from '../exec';
+
+test('killRunningCommands stops commands still running', { skip: process.platform === 'win32' }, async () => {
+  const started = Date.now();
+  const running = execCommand('sleep 30', { cwd: os.tmpdir() });
+  // Give the shell a moment to spawn sleep into the command's process group
+  await new Promise(resolve => setTimeout(resolve, 200));
+  killRunningCommands();
+  await assert.rejects(running, /Command failed: sleep 30/);
+  assert.ok(Date.now() - started < 10_000);
+});
+
+test('an aborted signal rejects with SCAN_ABORTED', async () => {
+  const controller = new AbortController();
+  const running = execCommand('sleep 30', { cwd: os.tmpdir(), signal: controller.signal });
+  controller.abort();
+  await assert.rejects(running, /SCAN_ABORTED/);
+});
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { test } from 'node:test';
+import { computeFingerprint, getCodeWindow } from '../fingerprint';
+import { getRule } from '../rules';
+import type { Rule } from '../rules';
+import { scanProject } from '../scan';
+import { createProject, removeProject } from './helpers';
+
+// Rules that report whole files or directories, where the path is the obvious (and wrong) identity
+const FILE_LEVEL_RULES = ['ORPHAN_MODULE', 'ORPHAN_ASSET', 'ZERO_BYTE_FILE', 'LARGE_FILE', 'EMPTY_DIR', 'BACKUP_FILE', 'MISSING_METADATA'];
+
+const RENAMES: Array<[string, string]> = [
+  ['src/legacy.ts', 'src/old/legacy-helpers.ts'],
+  ['public/logo.svg', 'public/brand.svg'],
+  ['notes/empty.txt', 'notes/blank.txt'],
+  ['data/dump.txt', 'data/export.txt'],
+  ['notes/draft.bak', 'notes/draft-2.bak'],
+  ['src/app/about/page.tsx', 'src/app/contact/page.tsx'],
+  ['src/unused', 'src/vacant']
+];
+
+const scanFingerprints = async (root: string) => {
+  const rules = FILE_LEVEL_RULES.map(id => getRule(id)).filter((rule): rule is Rule => rule !== undefined);
+  const { issues } = await scanProject(root, undefined, { useCache: false, useBaseline: false, rules });
+  return new Map(issues.map(issue => [issue.type, { fingerprint: issue.fingerprint, path: issue.path }]));
+};
+
+test('file-level findings keep their fingerprint when the file is renamed', async () => {
+  const root = await createProject({
+    'package.json': '{"name":"fixture","private":true}',
+    'sanity-gate.config.json': JSON.stringify({ entryPoints: ['src/index.ts'], thresholds: { largeFileBytes: 64 } }),
+    'src/index.ts': 'export const main = () => 1;\n',
+    'src/legacy.ts': 'export function legacy() {\n  return 2;\n}\n',
+    'public/logo.svg': '<svg xmlns="http://www.w3.org/2000/svg"></svg>\n',
+    'notes/empty.txt': '',
+    'data/dump.txt': 'row\n'.repeat(32),
+    'notes/draft.bak': 'first draft\n',
+    'src/app/about/page.tsx': 'export default function Page() {\n  return null;\n}\n'
+  });
+  try {
+    await fs.mkdir(path.join(root, 'src/unused'));
+    const before = await scanFingerprints(root);
+    assert.deepEqual([...before.keys()].sort(), [...FILE_LEVEL_RULES].sort());
+
+    for (const [from, to] of RENAMES) {
+      await fs.mkdir(path.dirname(path.join(root, to)), { recursive: true });
+      await fs.rename(path.join(root, from), path.join(root, to));
+    }
+    await fs.rmdir(path.join(root, 'src/app/about'));
+    const after = await scanFingerprints(root);
+
+    for (const ruleId of FILE_LEVEL_RULES) {
+      assert.notEqual(after.get(ruleId)?.path, before.get(ruleId)?.path, `${ruleId} should report the new path`);
+      assert.equal(after.get(ruleId)?.fingerprint, before.get(ruleId)?.fingerprint, `${ruleId} fingerprint changed on rename`);
+    }
+  } finally {
+    await removeProject(root);
+  }
+});
+
+test('an import cycle keeps its fingerprint when its directory is renamed', async () => {
+  const root = await createProject({
+    'package.json': '{"name":"fixture","private":true}',
+    'sanity-gate.config.json': JSON.stringify({ entryPoints: ['src/index.ts'] }),
+    'src/index.ts': "import { a } from './cycle/a';\nexport const main = a;\n",
+    'src/cycle/a.ts': "import { b } from './b';\nexport const a = () => b();\n",
+    'src/cycle/b.ts': "import { a } from './a';\nexport const b = () => 1;\nexport const c = () => a();\n"
+  });
+  const scanCycle = async () => {
+    const rule = getRule('CIRCULAR_IMPORT') as Rule;
+    const { issues } = await scanProject(root, undefined, { useCache: false, useBaseline: false, rules: [rule] });
+    assert.equal(issues.length, 1);
+    return issues[0];
+  };
+  try {
+    const before = await scanCycle();
+    await fs.rename(path.join(root, 'src/cycle'), path.join(root, 'src/loop'));
+    await fs.writeFile(path.join(root, 'src/index.ts'), "import { a } from './loop/a';\nexport const main = a;\n");
+    const after = await scanCycle();
+    assert.equal(after.path, 'src/loop/a.ts');
+    assert.equal(after.fingerprint, before.fingerprint);
+  } finally {
+    await removeProject(root);
+  }
+});
+
+test('code windows ignore line shifts and indentation', () => {
+  const original = 'const a = 1;\nconst b = eval(input);\n';
+  const shifted = '// header\n\n  const a = 1;\n    const b = eval(input);\n';
+  const window = getCodeWindow(original, original.indexOf('eval'));
+  assert.equal(getCodeWindow(shifted, shifted.indexOf('eval')), window);
+  assert.equal(computeFingerprint('EVAL_USAGE', window), computeFingerprint('EVAL_USAGE', window));
+  assert.notEqual(computeFingerprint('EVAL_USAGE', window), computeFingerprint('SYNC_IO', window));
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { test } from 'node:test';
+import { execCommand } from '../exec';
+import { fixProject } from '../fix';
+import { createProject, removeProject } from './helpers';
+
+const FILES = {
+  'package.json': '{"name":"fixture","private":true}\n',
+  'notes.bak': 'old notes\n'
+};
+
+const git = (root: string, args: string) =>
+  execCommand(`git -c user.name=test -c user.email=test@example.com ${args}`, { cwd: root });
+
+const exists = (file: string) => fs.access(file).then(() => true, () => false);
+
+test('applying fixes refuses a dirty working tree unless forced', async () => {
+  const root = await createProject(FILES);
+  try {
+    await git(root, 'init -q');
+    await git(root, 'add -A');
+    await git(root, 'commit -q -m initial');
+    await fs.writeFile(path.join(root, 'scratch.txt'), 'uncommitted\n');
+    const options = { types: ['BACKUP_FILE'], useCache: false };
+
+    await assert.rejects(fixProject(root, undefined, options), /DIRTY_TREE: Working tree has 1 uncommitted change/);
+    assert.ok(await exists(path.join(root, 'notes.bak')));
+
+    const dryRun = await fixProject(root, undefined, { ...options, dryRun: true });
+    assert.deepEqual(dryRun.changes.map(change => change.path), ['notes.bak']);
+    assert.ok(await exists(path.join(root, 'notes.bak')));
+
+    const forced = await fixProject(root, undefined, { ...options, force: true });
+    assert.equal(forced.fixed.length, 1);
+    assert.ok(!(await exists(path.join(root, 'notes.bak'))));
+  } finally {
+    await removeProject(root);
+  }
+});
+
+test('applying fixes outside a git repository needs force', async () => {
+  const root = await createProject(FILES);
+  try {
+    await assert.rejects(fixProject(root, undefined, { types: ['BACKUP_FILE'], useCache: false }), /NO_GIT_REPOSITORY/);
+    assert.ok(await exists(path.join(root, 'notes.bak')));
+  } finally {
+    await removeProject(root);
+  }
+});
@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { DEFAULT_SCORING, computeHealthScore } from '../health';
+import type { Issue } from '../types';
+import { createTestIssue } from './helpers';
+
+const issue = (fields: Partial<Issue>, index = 0) => createTestIssue({ id: `issue-${index}`, fingerprint: `fp-${index}`, ...fields });
+
+test('a project without issues scores 100 everywhere', () => {
+  const { overall, categories } = computeHealthScore([]);
+  assert.equal(overall, 100);
+  assert.ok(Object.values(categories).every(score => score === 100));
+});
+
+test('a category score halves every 30 penalty points', () => {
+  const errors = [0, 1, 2].map(index => issue({ category: 'code-quality', severity: 'error' }, index));
+  assert.equal(computeHealthScore(errors).categories['code-quality'], 50);
+  assert.equal(computeHealthScore([...errors, ...errors]).categories['code-quality'], 25);
+  assert.equal(computeHealthScore(errors).categories.security, 100);
+});
+
+test('the overall score is the category mean weighted by category weight', () => {
+  // One critical finding: 100 * 0.5^(25/30) = 56.1 for security (weight 3), 100 for the other 17 weight points
+  const { overall, categories } = computeHealthScore([issue({ category: 'security', severity: 'critical' })]);
+  assert.equal(categories.security, 56);
+  assert.equal(overall, Math.round((100 * Math.pow(0.5, 25 / 30) * 3 + 100 * 17) / 20));
+
+  // The same penalty weighs less in a category with weight 1
+  const lowWeight = computeHealthScore([issue({ category: 'seo', severity: 'critical' })]);
+  assert.ok(lowWeight.overall > overall);
+});
+
+test('custom scoring replaces the default weights', () => {
+  const scoring = {
+    severityWeights: { ...DEFAULT_SCORING.severityWeights, info: 30 },
+    categoryWeights: { ...DEFAULT_SCORING.categoryWeights }
+  };
+  assert.equal(computeHealthScore([issue({ severity: 'info' })], scoring).categories['code-quality'], 50);
+  assert.equal(computeHealthScore([issue({ severity: 'info' })]).categories['code-quality'], 98);
+});
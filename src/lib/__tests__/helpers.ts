@@ -0,0 +1,45 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Issue, ScanReport } from '../types';
+
+/**
+ * Fixture helpers shared by the unit tests
+ */
+
+// Creates a temporary project from relative paths and contents; remove it with removeProject
+export async function createProject(files: Record<string, string>): Promise<string> {
+  const root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'sanity-gate-test-'));
+  await writeFiles(root, files);
+  return root;
+}
+
+export async function writeFiles(root: string, files: Record<string, string>): Promise<void> {
+  for (const [file, content] of Object.entries(files)) {
+    await fs.promises.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+    await fs.promises.writeFile(path.join(root, file), content, 'utf-8');
+  }
+}
+
+export const removeProject = (root: string) => fs.promises.rm(root, { recursive: true, force: true });
+
+export function createTestIssue(fields: Partial<Issue> & Pick<Issue, 'id' | 'fingerprint'>): Issue {
+  return {
+    category: 'code-quality',
+    type: 'TODO_COMMENT',
+    message: fields.id,
+    severity: 'info',
+    suggestedAction: 'resolve',
+    ...fields
+  };
+}
+
+export function createTestReport(issues: Issue[], fields: Partial<ScanReport> = {}): ScanReport {
+  return {
+    project: 'fixture',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    issues,
+    stats: { filesScanned: 10, orphansFound: 0, unusedDeps: 0, suppressed: 0 },
+    ...fields
+  };
+}
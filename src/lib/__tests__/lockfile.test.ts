@@ -0,0 +1,186 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { loadLockfile } from '../lockfile';
+import { createProject, removeProject } from './helpers';
+
+const withLockfile = async (files: Record<string, string>, check: (resolve: (name: string, range: string) => string | null, file: string) => void) => {
+  const root = await createProject(files);
+  try {
+    const lockfile = await loadLockfile(root);
+    assert.ok(lockfile, 'lockfile should load');
+    check(lockfile.resolve, lockfile.file);
+  } finally {
+    await removeProject(root);
+  }
+};
+
+test('npm lockfileVersion 1 reads top-level dependencies', () =>
+  withLockfile({
+    'package-lock.json': JSON.stringify({
+      lockfileVersion: 1,
+      dependencies: { react: { version: '18.2.0' }, local: { version: 'file:../local' } }
+    })
+  }, resolve => {
+    assert.equal(resolve('react', '^18.0.0'), '18.2.0');
+    // Non-registry references have no version to pin
+    assert.equal(resolve('local', 'file:../local'), null);
+    assert.equal(resolve('missing', '^1.0.0'), null);
+  })
+);
+
+test('npm lockfileVersion 2 and 3 read node_modules entries', () =>
+  withLockfile({
+    'package-lock.json': JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { dependencies: { next: '^16.0.0' } },
+        'node_modules/next': { version: '16.0.1' },
+        'node_modules/@types/node': { version: '20.11.5' }
+      }
+    })
+  }, resolve => {
+    assert.equal(resolve('next', '^16.0.0'), '16.0.1');
+    assert.equal(resolve('@types/node', '^20'), '20.11.5');
+  })
+);
+
+test('npm-shrinkwrap.json takes precedence over package-lock.json', () =>
+  withLockfile({
+    'package-lock.json': JSON.stringify({ lockfileVersion: 3, packages: { 'node_modules/react': { version: '18.2.0' } } }),
+    'npm-shrinkwrap.json': JSON.stringify({ lockfileVersion: 3, packages: { 'node_modules/react': { version: '18.3.1' } } })
+  }, (resolve, file) => {
+    assert.equal(file, 'npm-shrinkwrap.json');
+    assert.equal(resolve('react', '^18.0.0'), '18.3.1');
+  })
+);
+
+test('pnpm lockfileVersion 5 strips underscore peer suffixes', () =>
+  withLockfile({
+    'pnpm-lock.yaml': [
+      'lockfileVersion: 5.4',
+      '',
+      'specifiers:',
+      '  react: ^18.0.0',
+      '  react-dom: ^18.0.0',
+      '',
+      'dependencies:',
+      '  react: 18.2.0',
+      '  react-dom: 18.2.0_react@18.2.0',
+      '',
+      'packages:',
+      '  /loose-envify/1.4.0:',
+      '    resolution: {integrity: sha512-x}',
+      ''
+    ].join('\n')
+  }, resolve => {
+    assert.equal(resolve('react', '^18.0.0'), '18.2.0');
+    assert.equal(resolve('react-dom', '^18.0.0'), '18.2.0');
+    assert.equal(resolve('loose-envify', '^1.0.0'), null);
+  })
+);
+
+test('pnpm lockfileVersion 6 reads specifier/version mappings', () =>
+  withLockfile({
+    'pnpm-lock.yaml': [
+      "lockfileVersion: '6.0'",
+      '',
+      'dependencies:',
+      '  react-dom:',
+      '    specifier: ^18.0.0',
+      '    version: 18.2.0(react@18.2.0)',
+      '',
+      'devDependencies:',
+      "  '@types/node':",
+      '    specifier: ^20.0.0',
+      '    version: 20.11.5',
+      ''
+    ].join('\n')
+  }, resolve => {
+    assert.equal(resolve('react-dom', '^18.0.0'), '18.2.0');
+    assert.equal(resolve('@types/node', '^20.0.0'), '20.11.5');
+  })
+);
+
+test('pnpm lockfileVersion 9 reads only the root importer', () =>
+  withLockfile({
+    'pnpm-lock.yaml': [
+      "lockfileVersion: '9.0'",
+      '',
+      'importers:',
+      '',
+      '  .:',
+      '    dependencies:',
+      '      zod:',
+      '        specifier: ^3.22.0',
+      '        version: 3.22.4',
+      '',
+      '  packages/app:',
+      '    dependencies:',
+      '      lodash:',
+      '        specifier: ^4.17.0',
+      '        version: 4.17.21',
+      '',
+      'packages:',
+      '',
+      '  zod@3.22.4:',
+      '    resolution: {integrity: sha512-x}',
+      ''
+    ].join('\n')
+  }, resolve => {
+    assert.equal(resolve('zod', '^3.22.0'), '3.22.4');
+    assert.equal(resolve('lodash', '^4.17.0'), null);
+  })
+);
+
+test('yarn 1 matches any of the quoted specifiers of an entry', () =>
+  withLockfile({
+    'yarn.lock': [
+      '# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.',
+      '# yarn lockfile v1',
+      '',
+      '',
+      '"@babel/core@^7.0.0", "@babel/core@^7.20.0":',
+      '  version "7.23.2"',
+      '  resolved "https://registry.yarnpkg.com/@babel/core/-/core-7.23.2.tgz"',
+      '',
+      'lodash@^4.17.0:',
+      '  version "4.17.21"',
+      ''
+    ].join('\n')
+  }, resolve => {
+    assert.equal(resolve('@babel/core', '^7.20.0'), '7.23.2');
+    assert.equal(resolve('@babel/core', '^7.0.0'), '7.23.2');
+    assert.equal(resolve('lodash', '^4.17.0'), '4.17.21');
+    assert.equal(resolve('lodash', '^3.0.0'), null);
+  })
+);
+
+test('yarn 2+ matches npm: specifiers in a quoted list', () =>
+  withLockfile({
+    'yarn.lock': [
+      '__metadata:',
+      '  version: 6',
+      '  cacheKey: 8',
+      '',
+      '"typescript@npm:^5.0.0, typescript@npm:^5.3.0":',
+      '  version: 5.3.3',
+      '  resolution: "typescript@npm:5.3.3"',
+      '',
+      '"my-app@workspace:.":',
+      '  version: 0.0.0-use.local',
+      ''
+    ].join('\n')
+  }, resolve => {
+    assert.equal(resolve('typescript', '^5.3.0'), '5.3.3');
+    assert.equal(resolve('typescript', '^5.0.0'), '5.3.3');
+  })
+);
+
+test('a lockfile that does not parse gives no lockfile', async () => {
+  const root = await createProject({ 'package-lock.json': '{ not json' });
+  try {
+    assert.equal(await loadLockfile(root), null);
+  } finally {
+    await removeProject(root);
+  }
+});
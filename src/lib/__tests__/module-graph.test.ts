@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseExports, parseImports } from '../module-graph';
+
+const lines = (...content: string[]) => content.join('\n');
+
+test('parseImports finds static, side-effect, require and dynamic imports', () => {
+  const content = lines(
+    "import React, { useState as useLocalState } from 'react';",
+    "import type { Issue } from './types';",
+    "import { type A, type B } from './both-types';",
+    "import * as path from 'path';",
+    "import './styles.css';",
+    "export { helper } from './helper';",
+    "const fs = require('fs');",
+    "const lazy = () => import('./lazy');",
+    "const joined = path.join('a', 'b');"
+  );
+
+  assert.deepEqual(parseImports(content).map(({ specifier, kind, typeOnly, names }) => ({ specifier, kind, typeOnly, names })), [
+    { specifier: 'react', kind: 'import', typeOnly: false, names: ['useState', 'default'] },
+    { specifier: './types', kind: 'import', typeOnly: true, names: ['Issue'] },
+    { specifier: './both-types', kind: 'import', typeOnly: true, names: ['A', 'B'] },
+    // Namespace imports use the members read from the namespace
+    { specifier: 'path', kind: 'import', typeOnly: false, names: ['join'] },
+    { specifier: './styles.css', kind: 'import', typeOnly: false, names: [] },
+    { specifier: './helper', kind: 'export', typeOnly: false, names: [] },
+    { specifier: 'fs', kind: 'require', typeOnly: false, names: ['*'] },
+    { specifier: './lazy', kind: 'dynamic', typeOnly: false, names: ['*'] }
+  ]);
+});
+
+test('parseImports points at the opening quote and skips comments and strings', () => {
+  const content = lines(
+    "// import { gone } from './commented-out';",
+    "const text = \"import { x } from './in-a-string'\";",
+    "import { kept } from './kept';"
+  );
+  const imports = parseImports(content);
+  assert.deepEqual(imports.map(record => record.specifier), ['./kept']);
+  assert.equal(content[imports[0].index], "'");
+  assert.equal(content.slice(imports[0].index + 1).startsWith('./kept'), true);
+});
+
+test('parseExports finds declarations, clauses, defaults and re-exports', () => {
+  const content = lines(
+    'export const a = 1;',
+    'export async function load() {}',
+    'export type Shape = { size: number };',
+    'export interface Options {}',
+    'export const { b, c: renamed, ...rest } = source;',
+    'const local = 3;',
+    'export { local as aliased, type Options as Settings };',
+    "export { helper as tool } from './helper';",
+    "export * from './everything';",
+    "export * as grouped from './grouped';",
+    'export default load;'
+  );
+
+  assert.deepEqual(parseExports(content).map(({ name, typeOnly, specifier, imported }) => ({ name, typeOnly, specifier, imported })), [
+    { name: 'a', typeOnly: false, specifier: undefined, imported: undefined },
+    { name: 'load', typeOnly: false, specifier: undefined, imported: undefined },
+    { name: 'Shape', typeOnly: true, specifier: undefined, imported: undefined },
+    { name: 'Options', typeOnly: true, specifier: undefined, imported: undefined },
+    { name: 'b', typeOnly: false, specifier: undefined, imported: undefined },
+    { name: 'renamed', typeOnly: false, specifier: undefined, imported: undefined },
+    { name: 'rest', typeOnly: false, specifier: undefined, imported: undefined },
+    { name: 'aliased', typeOnly: false, specifier: undefined, imported: undefined },
+    { name: 'Settings', typeOnly: true, specifier: undefined, imported: undefined },
+    { name: 'tool', typeOnly: false, specifier: './helper', imported: 'helper' },
+    { name: '*', typeOnly: false, specifier: './everything', imported: '*' },
+    { name: 'grouped', typeOnly: false, specifier: './grouped', imported: '*' },
+    { name: 'default', typeOnly: false, specifier: undefined, imported: undefined }
+  ]);
+});
+
+test('parseExports points at the exported name', () => {
+  const content = 'const value = 1;\nexport { value as renamed };\nexport function named() {}\n';
+  for (const record of parseExports(content)) {
+    assert.equal(content.slice(record.index, record.index + record.name.length), record.name);
+  }
+});
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { removeDependency, setDependencyVersion } from '../package-json';
+
+const PACKAGE_JSON = `{
+  "name": "fixture",
+  "dependencies": {
+    "alpha": "^1.0.0",
+    "beta":   "~2.0.0",
+    "gamma": "3.0.0"
+  },
+  "devDependencies": {}
+}
+`;
+
+test('removing the first, middle or last entry changes only that entry', () => {
+  assert.equal(removeDependency(PACKAGE_JSON, 'dependencies', 'alpha'), PACKAGE_JSON.replace('"alpha": "^1.0.0",\n    ', ''));
+  assert.equal(removeDependency(PACKAGE_JSON, 'dependencies', 'beta'), PACKAGE_JSON.replace('"beta":   "~2.0.0",\n    ', ''));
+  assert.equal(removeDependency(PACKAGE_JSON, 'dependencies', 'gamma'), PACKAGE_JSON.replace(',\n    "gamma": "3.0.0"', ''));
+});
+
+test('removing the only entry leaves an empty section', () => {
+  const content = '{\n\t"devDependencies": {\n\t\t"typescript": "^5.0.0"\n\t}\n}\n';
+  assert.equal(removeDependency(content, 'devDependencies', 'typescript'), '{\n\t"devDependencies": {}\n}\n');
+});
+
+test('setting a version keeps tabs, spacing and key order', () => {
+  const content = '{\n\t"dependencies": {\n\t\t"beta" :  "~2.0.0",\n\t\t"alpha": "^1.0.0"\n\t}\n}';
+  assert.equal(
+    setDependencyVersion(content, 'dependencies', 'beta', '2.0.3'),
+    '{\n\t"dependencies": {\n\t\t"beta" :  "2.0.3",\n\t\t"alpha": "^1.0.0"\n\t}\n}'
+  );
+});
+
+test('keys with escapes and lookalike strings elsewhere are matched exactly', () => {
+  const content = '{"scripts":{"dep":"alpha"},"dependencies":{"we\\"ird":"1.0.0","alpha":"^1.0.0"}}';
+  assert.equal(removeDependency(content, 'dependencies', 'we"ird'), '{"scripts":{"dep":"alpha"},"dependencies":{"alpha":"^1.0.0"}}');
+  assert.equal(
+    setDependencyVersion(content, 'dependencies', 'alpha', '1.2.3'),
+    '{"scripts":{"dep":"alpha"},"dependencies":{"we\\"ird":"1.0.0","alpha":"1.2.3"}}'
+  );
+});
+
+test('missing sections, missing entries and invalid JSON are rejected', () => {
+  assert.throws(() => removeDependency('{"name":"fixture"}', 'dependencies', 'alpha'), /VALIDATION_ERROR: package.json has no dependencies/);
+  assert.throws(() => removeDependency(PACKAGE_JSON, 'devDependencies', 'alpha'), /VALIDATION_ERROR: "alpha" is not in package.json devDependencies/);
+  assert.throws(() => setDependencyVersion('{"dependencies":', 'dependencies', 'alpha', '1.0.0'), /VALIDATION_ERROR: package.json is not valid JSON/);
+});
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { after, test } from 'node:test';
+import { RULE_CATALOG, createIssue, getRule, registerRule, unregisterRule } from '../rules';
+import type { ProjectRule } from '../rules';
+import { scanProject } from '../scan';
+import { createProject, removeProject } from './helpers';
+
+const temporaryRule: ProjectRule = {
+  ...RULE_CATALOG.TODO_COMMENT,
+  id: 'TEST_TEMPORARY_RULE',
+  scope: 'project',
+  async run() {
+    return [createIssue({ ...RULE_CATALOG.TODO_COMMENT, id: 'TEST_TEMPORARY_RULE' }, {
+      id: 'temporary',
+      fingerprintKey: 'temporary',
+      message: 'Reported by a rule registered at runtime'
+    })];
+  }
+};
+
+after(() => unregisterRule(temporaryRule.id));
+
+test('rules registered at runtime run in scans until they are unregistered', async () => {
+  const root = await createProject({ 'package.json': '{"name":"fixture"}' });
+  const scan = () => scanProject(root, undefined, { useCache: false, useBaseline: false });
+  try {
+    registerRule(temporaryRule);
+    assert.equal(getRule(temporaryRule.id), temporaryRule);
+    assert.ok((await scan()).issues.some(issue => issue.type === temporaryRule.id));
+
+    assert.equal(unregisterRule(temporaryRule.id), true);
+    assert.equal(getRule(temporaryRule.id), undefined);
+    assert.ok(!(await scan()).issues.some(issue => issue.type === temporaryRule.id));
+    assert.equal(unregisterRule(temporaryRule.id), false);
+  } finally {
+    await removeProject(root);
+  }
+});
+
+test('registering a rule id twice is rejected', () => {
+  registerRule(temporaryRule);
+  assert.throws(() => registerRule(temporaryRule), /^Error: VALIDATION_ERROR: Rule "TEST_TEMPORARY_RULE" is already registered$/);
+});
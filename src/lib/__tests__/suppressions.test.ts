@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { applySuppressions, parseSuppressions } from '../suppressions';
+import { createTestIssue } from './helpers';
+
+// Spelled out in pieces so scans of this file do not read the fixtures as directives
+const DISABLE = ['sanity-gate', 'disable'].join('-');
+
+test('line and file directives are parsed from line and block comments', () => {
+  const content = [
+    `/* ${DISABLE} CONSOLE_LOG -- debug output is intended here */`,
+    'const a = 1;',
+    `  // ${DISABLE}-next-line TODO_COMMENT, SYNC_IO`,
+    'tidyUp();'
+  ].join('\n');
+
+  const [file, line] = parseSuppressions(content);
+  assert.deepEqual(file, {
+    scope: 'file',
+    line: 1,
+    targetLine: 1,
+    ruleIds: ['CONSOLE_LOG'],
+    reason: 'debug output is intended here',
+    text: `/* ${DISABLE} CONSOLE_LOG -- debug output is intended here */`,
+    used: false
+  });
+  assert.equal(line.scope, 'line');
+  assert.equal(line.targetLine, 4);
+  assert.deepEqual(line.ruleIds, ['TODO_COMMENT', 'SYNC_IO']);
+  assert.equal(line.reason, undefined);
+});
+
+test('text that only resembles a directive is ignored', () => {
+  assert.deepEqual(parseSuppressions('const note = "no comment here";\n'), []);
+  assert.deepEqual(parseSuppressions(`// ${DISABLE}d TODO_COMMENT\n`), []);
+  assert.deepEqual(parseSuppressions(`const s = '${DISABLE} TODO_COMMENT';\n`), []);
+});
+
+test('directives silence only matching rules on their target line or file', () => {
+  const directives = parseSuppressions([
+    `// ${DISABLE} CONSOLE_LOG`,
+    `// ${DISABLE}-next-line TODO_COMMENT -- tracked elsewhere`,
+    'first();',
+    'second();'
+  ].join('\n'));
+  const at = (type: string, line: number) => createTestIssue({
+    id: `${type}-${line}`,
+    fingerprint: `${type}-${line}`,
+    type,
+    path: 'src/a.ts',
+    location: { startLine: line, startColumn: 1, endLine: line, endColumn: 2 }
+  });
+
+  const { issues, suppressed } = applySuppressions(
+    [at('TODO_COMMENT', 3), at('TODO_COMMENT', 4), at('CONSOLE_LOG', 9), { ...at('CONSOLE_LOG', 9), path: 'src/b.ts' }],
+    new Map([['src/a.ts', directives]])
+  );
+
+  assert.deepEqual(issues.map(issue => `${issue.path}:${issue.id}`), ['src/a.ts:TODO_COMMENT-4', 'src/b.ts:CONSOLE_LOG-9']);
+  assert.deepEqual(suppressed.map(issue => [issue.id, issue.suppression]), [
+    ['TODO_COMMENT-3', { scope: 'line', line: 2, reason: 'tracked elsewhere' }],
+    ['CONSOLE_LOG-9', { scope: 'file', line: 1 }]
+  ]);
+  assert.ok(directives.every(directive => directive.used));
+});
@@ -0,0 +1,30 @@
+/**
+ * Cancellation helpers for scans driven by an AbortSignal.
+ * A cancelled scan rejects with a SCAN_ABORTED error, whichever step it was in.
+ */
+
+export const createAbortError = () => new Error('SCAN_ABORTED: Scan was cancelled');
+
+export const isAbortError = (error: unknown) =>
+  error instanceof Error && error.message.startsWith('SCAN_ABORTED');
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * Settles with the promise, or rejects as soon as the signal aborts.
+ * For work that cannot be interrupted (e.g. depcheck): it keeps running, but the scan stops waiting.
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(createAbortError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
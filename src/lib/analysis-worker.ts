@@ -0,0 +1,17 @@
+import { parentPort } from 'worker_threads';
+import { analyzeFile } from './analysis';
+import type { AnalysisTask } from './analysis';
+import { getRule } from './rules';
+import type { FileRule } from './rules/types';
+
+/**
+ * Worker thread for content analysis, loaded through bin/analysis-worker.js by analyzeFiles.
+ * Rules are looked up by id in this thread's own registry, which holds the built-in rules.
+ */
+
+parentPort?.on('message', (task: AnalysisTask) => {
+  const rules = task.ruleIds
+    .map(id => getRule(id))
+    .filter((rule): rule is FileRule => rule?.scope === 'file');
+  parentPort?.postMessage(task.files.map(file => analyzeFile(task.rootPath, file, rules)));
+});
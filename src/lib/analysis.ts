@@ -0,0 +1,194 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+import { throwIfAborted } from './abort';
+import { isBuiltInRule } from './rules';
+import { toError } from './rules/helpers';
+import type { FileRule } from './rules/types';
+import type { Issue, LoggerFunction } from './types';
+
+/**
+ * Content analysis: runs file rules over source files, spread across a worker_threads pool
+ * so regex-heavy scans neither block the caller's event loop nor run on a single core.
+ */
+
+export interface AnalysisFile {
+  file: string;
+  content: string;
+  isAnalyzerSource: boolean;
+}
+
+interface FileAnalysis {
+  file: string;
+  // Issues per rule id, in rule order
+  issuesByRule: Record<string, Issue[]>;
+  errors: { rule: string; message: string }[];
+}
+
+export interface AnalysisTask {
+  rootPath: string;
+  ruleIds: string[];
+  files: AnalysisFile[];
+}
+
+interface AnalysisOptions {
+  // Worker threads to start at most; defaults to the CPU count
+  concurrency?: number;
+  log: LoggerFunction;
+  // Called with the number of files analysed so far as chunks complete
+  onProgress?: (processed: number) => void;
+  // Terminates the workers and rejects with SCAN_ABORTED
+  signal?: AbortSignal;
+}
+
+// Files sent to a worker per message
+const ANALYSIS_BATCH_SIZE = 25;
+
+// Plain-JavaScript worker entry, relative to the project root
+const WORKER_ENTRY = path.join('bin', 'analysis-worker.js');
+
+const getDefaultConcurrency = () => Math.max(1, os.availableParallelism());
+
+export function analyzeFile(rootPath: string, source: AnalysisFile, rules: FileRule[]): FileAnalysis {
+  const fileContext = { ...source, rootPath };
+  const issuesByRule: Record<string, Issue[]> = {};
+  const errors: FileAnalysis['errors'] = [];
+  for (const rule of rules) {
+    try {
+      issuesByRule[rule.id] = rule.run(fileContext);
+    } catch (error: unknown) {
+      issuesByRule[rule.id] = [];
+      errors.push({ rule: rule.id, message: toError(error).message });
+    }
+  }
+  return { file: source.file, issuesByRule, errors };
+}
+
+// Next to the sources when they run through tsx (CLI). Bundled into the Next.js server, import.meta.url may point
+// into the build output instead, so the project root the server runs from is tried as well.
+function getWorkerPath(): string | null {
+  const roots = [process.cwd()];
+  try {
+    roots.unshift(path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', '..'));
+  } catch {
+    // Not a file URL in this bundle
+  }
+  return roots.map(root => path.join(root, WORKER_ENTRY)).find(workerPath => fs.existsSync(workerPath)) ?? null;
+}
+
+function runTask(worker: Worker, task: AnalysisTask): Promise<FileAnalysis[]> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      worker.off('message', onMessage);
+      worker.off('error', onError);
+      worker.off('exit', onExit);
+    };
+    const onMessage = (results: FileAnalysis[]) => {
+      cleanup();
+      resolve(results);
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onExit = (code: number) => {
+      cleanup();
+      reject(new Error(`ANALYSIS_ERROR: Worker exited with code ${code}`));
+    };
+    worker.on('message', onMessage);
+    worker.on('error', onError);
+    worker.on('exit', onExit);
+    worker.postMessage(task);
+  });
+}
+
+/**
+ * Analyses files in a worker pool. Results come back in input order and match a sequential run;
+ * chunks a worker cannot handle, and rules registered at runtime, run on the calling thread.
+ */
+export async function analyzeFiles(
+  rootPath: string,
+  rules: FileRule[],
+  files: AnalysisFile[],
+  options: AnalysisOptions
+): Promise<FileAnalysis[]> {
+  if (files.length === 0 || rules.length === 0) {
+    return files.map(file => ({ file: file.file, issuesByRule: {}, errors: [] }));
+  }
+
+  const workerRules = rules.filter(isBuiltInRule);
+  const inlineRules = rules.filter(rule => !isBuiltInRule(rule));
+  const workerPath = workerRules.length > 0 ? getWorkerPath() : null;
+
+  const chunks: AnalysisFile[][] = [];
+  for (let i = 0; i < files.length; i += ANALYSIS_BATCH_SIZE) {
+    chunks.push(files.slice(i, i + ANALYSIS_BATCH_SIZE));
+  }
+  const chunkResults: (FileAnalysis[] | undefined)[] = new Array(chunks.length);
+  let processed = 0;
+  const reportChunk = (chunk: AnalysisFile[]) => {
+    processed += chunk.length;
+    options.onProgress?.(processed);
+  };
+
+  if (workerRules.length > 0 && !workerPath) {
+    options.log('warn', 'scan', 'Analysis worker entry not found; analysing on the calling thread', { entry: WORKER_ENTRY });
+  }
+
+  if (workerPath) {
+    const workerCount = Math.min(options.concurrency ?? getDefaultConcurrency(), chunks.length);
+    options.log('info', 'scan', 'Starting analysis workers', { count: workerCount });
+    const workers = Array.from({ length: workerCount }, () => {
+      const worker = new Worker(workerPath);
+      // Failures during a task are reported by runTask; one between tasks must not crash the scan
+      worker.on('error', () => undefined);
+      return worker;
+    });
+    const ruleIds = workerRules.map(rule => rule.id);
+    let nextChunk = 0;
+    const terminateAll = () => workers.forEach(worker => void worker.terminate());
+    options.signal?.addEventListener('abort', terminateAll, { once: true });
+
+    try {
+      await Promise.all(workers.map(async worker => {
+        while (nextChunk < chunks.length && !options.signal?.aborted) {
+          const index = nextChunk++;
+          try {
+            chunkResults[index] = await runTask(worker, { rootPath, ruleIds, files: chunks[index] });
+            reportChunk(chunks[index]);
+          } catch (error: unknown) {
+            if (options.signal?.aborted) return;
+            // Leave the chunk to the calling thread and stop using this worker
+            options.log('warn', 'scan', 'Analysis worker failed', { error: toError(error).message });
+            return;
+          }
+        }
+      }));
+    } finally {
+      options.signal?.removeEventListener('abort', terminateAll);
+      await Promise.all(workers.map(worker => worker.terminate()));
+    }
+  }
+
+  const results: FileAnalysis[] = [];
+  for (const [index, chunk] of chunks.entries()) {
+    throwIfAborted(options.signal);
+    let analyses = chunkResults[index];
+    if (!analyses) {
+      analyses = chunk.map(file => analyzeFile(rootPath, file, workerRules));
+      reportChunk(chunk);
+    }
+    for (const [fileIndex, analysis] of analyses.entries()) {
+      const inline = analyzeFile(rootPath, chunk[fileIndex], inlineRules);
+      // Rebuild in rule order so output does not depend on where each rule ran
+      const issuesByRule: Record<string, Issue[]> = {};
+      for (const rule of rules) {
+        issuesByRule[rule.id] = analysis.issuesByRule[rule.id] || inline.issuesByRule[rule.id] || [];
+      }
+      results.push({ file: analysis.file, issuesByRule, errors: [...analysis.errors, ...inline.errors] });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+import type { BaselineEntry, BaselineSummary, Issue } from './types';
+
+const BASELINE_FILE_NAME = '.sanity-gate-baseline.json';
+
+// Version 2 switched entries from type/path/message hashes to content-based issue fingerprints
+const BASELINE_VERSION = 2;
+
+interface BaselineFile {
+  version: number;
+  generatedAt: string;
+  entries: BaselineEntry[];
+}
+
+export function createBaseline(issues: Issue[]): BaselineFile {
+  const entries = issues
+    .map(issue => ({
+      fingerprint: issue.fingerprint,
+      type: issue.type,
+      ...(issue.path && { path: issue.path.replace(/\\/g, '/') }),
+      message: issue.message
+    }))
+    // Stable order keeps diffs of the committed file small
+    .sort((a, b) =>
+      a.type.localeCompare(b.type) ||
+      (a.path || '').localeCompare(b.path || '') ||
+      a.fingerprint.localeCompare(b.fingerprint)
+    );
+
+  return {
+    version: BASELINE_VERSION,
+    generatedAt: new Date().toISOString(),
+    entries
+  };
+}
+
+export async function loadBaseline(rootPath: string): Promise<BaselineFile | null> {
+  const baselinePath = path.join(rootPath, BASELINE_FILE_NAME);
+
+  let content: string;
+  try {
+    content = await fs.promises.readFile(baselinePath, 'utf-8');
+  } catch {
+    // No baseline committed
+    return null;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new Error(`BASELINE_ERROR: ${BASELINE_FILE_NAME} is not valid JSON`);
+  }
+
+  const baseline = raw as Partial<BaselineFile>;
+  if (
+    typeof baseline !== 'object' || baseline === null ||
+    !Array.isArray(baseline.entries) ||
+    !baseline.entries.every(entry => entry && typeof entry.fingerprint === 'string' && typeof entry.type === 'string')
+  ) {
+    throw new Error(`BASELINE_ERROR: ${BASELINE_FILE_NAME} must contain an "entries" array of { fingerprint, type } objects`);
+  }
+  if (baseline.version !== BASELINE_VERSION) {
+    throw new Error(`BASELINE_ERROR: ${BASELINE_FILE_NAME} has unsupported version ${baseline.version}; regenerate it with --update-baseline`);
+  }
+
+  return baseline as BaselineFile;
+}
+
+export async function writeBaseline(rootPath: string, baseline: BaselineFile): Promise<string> {
+  const baselinePath = path.join(rootPath, BASELINE_FILE_NAME);
+  await fs.promises.writeFile(baselinePath, `${JSON.stringify(baseline, null, 2)}\n`, 'utf-8');
+  return baselinePath;
+}
+
+/**
+ * Marks each issue as new or baselined and collects baseline entries that no longer occur.
+ * Entries are matched as a multiset, so two identical findings need two baseline entries.
+ */
+export function applyBaseline(issues: Issue[], baseline: BaselineFile): BaselineSummary {
+  const remaining = new Map<string, BaselineEntry[]>();
+  for (const entry of baseline.entries) {
+    const bucket = remaining.get(entry.fingerprint) || [];
+    bucket.push(entry);
+    remaining.set(entry.fingerprint, bucket);
+  }
+
+  let newIssues = 0;
+  for (const issue of issues) {
+    const bucket = remaining.get(issue.fingerprint);
+    if (bucket && bucket.length > 0) {
+      bucket.pop();
+      issue.baselineStatus = 'baselined';
+    } else {
+      issue.baselineStatus = 'new';
+      newIssues++;
+    }
+  }
+
+  return {
+    source: BASELINE_FILE_NAME,
+    newIssues,
+    baselinedIssues: issues.length - newIssues,
+    fixed: [...remaining.values()].flat()
+  };
+}
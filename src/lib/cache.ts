@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import packageJson from '../../package.json';
+import type { CacheStats, Issue, ResolvedConfig } from './types';
+
+/**
+ * On-disk result cache under .sanity-gate/cache in the scanned project.
+ * File rule results are keyed by path and content hash; project rules that declare a cacheKey are keyed by it.
+ * The whole cache is dropped when the config or the Sanity Gate version changes.
+ */
+
+const CACHE_DIR = path.join('.sanity-gate', 'cache');
+const CACHE_FILE_NAME = 'results.json';
+
+// Bump when the cache file layout changes
+const CACHE_FORMAT = 1;
+
+interface CachedFile {
+  hash: string;
+  // Issues per file rule id, before suppressions and severity overrides
+  rules: Record<string, Issue[]>;
+}
+
+interface CachedProjectRule {
+  key: string;
+  issues: Issue[];
+}
+
+interface CacheFile {
+  format: number;
+  version: string;
+  configHash: string;
+  files: Record<string, CachedFile>;
+  projectRules: Record<string, CachedProjectRule>;
+}
+
+export interface ScanCache {
+  getFileIssues(file: string, hash: string, ruleIds: string[]): Issue[] | null;
+  setFileIssues(file: string, hash: string, issuesByRule: Record<string, Issue[]>): void;
+  getProjectIssues(ruleId: string, key: string): Issue[] | null;
+  setProjectIssues(ruleId: string, key: string, issues: Issue[]): void;
+  getStats(): CacheStats;
+  save(): Promise<void>;
+}
+
+export const hashContent = (content: string | Buffer) =>
+  crypto.createHash('sha256').update(content).digest('hex');
+
+// The config source is where the file was found, not what it says
+const hashConfig = (config: ResolvedConfig) => hashContent(JSON.stringify({ ...config, source: null }));
+
+// Cached issues must not share objects with the report, which is mutated by severity overrides and the baseline
+const cloneIssues = (issues: Issue[]): Issue[] => structuredClone(issues);
+
+async function readCacheFile(cachePath: string): Promise<CacheFile | null> {
+  try {
+    const raw = JSON.parse(await fs.promises.readFile(cachePath, 'utf-8')) as Partial<CacheFile>;
+    if (raw.format !== CACHE_FORMAT || typeof raw.files !== 'object' || typeof raw.projectRules !== 'object') {
+      return null;
+    }
+    return raw as CacheFile;
+  } catch {
+    // Missing or corrupt cache starts empty
+    return null;
+  }
+}
+
+export async function loadScanCache(rootPath: string, config: ResolvedConfig): Promise<ScanCache> {
+  const cacheDir = path.join(rootPath, CACHE_DIR);
+  const cachePath = path.join(cacheDir, CACHE_FILE_NAME);
+  const configHash = hashConfig(config);
+
+  const previous = await readCacheFile(cachePath);
+  const usable = previous && previous.version === packageJson.version && previous.configHash === configHash
+    ? previous
+    : null;
+
+  // Only entries touched by this scan are written back, so deleted files and removed rules drop out
+  const next: CacheFile = {
+    format: CACHE_FORMAT,
+    version: packageJson.version,
+    configHash,
+    files: {},
+    projectRules: {}
+  };
+  let hits = 0;
+  let misses = 0;
+
+  return {
+    getFileIssues(file, hash, ruleIds) {
+      const entry = usable?.files[file];
+      if (!entry || entry.hash !== hash || !ruleIds.every(id => id in entry.rules)) {
+        misses++;
+        return null;
+      }
+      hits++;
+      next.files[file] = entry;
+      return cloneIssues(ruleIds.flatMap(id => entry.rules[id]));
+    },
+
+    setFileIssues(file, hash, issuesByRule) {
+      const rules: Record<string, Issue[]> = {};
+      for (const [ruleId, issues] of Object.entries(issuesByRule)) {
+        rules[ruleId] = cloneIssues(issues);
+      }
+      next.files[file] = { hash, rules };
+    },
+
+    getProjectIssues(ruleId, key) {
+      const entry = usable?.projectRules[ruleId];
+      if (!entry || entry.key !== key) {
+        misses++;
+        return null;
+      }
+      hits++;
+      next.projectRules[ruleId] = entry;
+      return cloneIssues(entry.issues);
+    },
+
+    setProjectIssues(ruleId, key, issues) {
+      next.projectRules[ruleId] = { key, issues: cloneIssues(issues) };
+    },
+
+    getStats() {
+      const lookups = hits + misses;
+      return {
+        hits,
+        misses,
+        hitRate: lookups === 0 ? 0 : Math.round((hits / lookups) * 1000) / 1000
+      };
+    },
+
+    async save() {
+      await fs.promises.mkdir(cacheDir, { recursive: true });
+      // Keep the cache out of git status (and the UNCOMMITTED_CHANGES rule) without touching the project's .gitignore
+      await fs.promises.writeFile(path.join(rootPath, '.sanity-gate', '.gitignore'), '*\n', 'utf-8');
+      // Unique per save: concurrent scans in one process (the web server) must not share a temp file
+      const tempPath = `${cachePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+      await fs.promises.writeFile(tempPath, JSON.stringify(next), 'utf-8');
+      await fs.promises.rename(tempPath, cachePath);
+    }
+  };
+}
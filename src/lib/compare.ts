@@ -0,0 +1,127 @@
+import type { Issue, IssueSeverity, ScanReport } from './types';
+
+/**
+ * Compares two scan reports by issue fingerprint.
+ * Free of Node.js imports so the web UI's compare view can use it as well as the CLI.
+ */
+
+export interface StatDelta {
+  before: number;
+  after: number;
+  // after - before; negative means fewer
+  delta: number;
+}
+
+interface ComparedReport {
+  project: string;
+  timestamp: string;
+  // Report store id, when the report came from the store
+  id?: string;
+}
+
+interface SeverityChange {
+  before: Issue;
+  after: Issue;
+}
+
+export type ComparedStat = 'issues' | 'filesScanned' | 'orphansFound' | 'unusedDeps' | 'suppressed';
+
+export interface ReportComparison {
+  base: ComparedReport;
+  head: ComparedReport;
+  // In head only
+  newIssues: Issue[];
+  // In base only
+  resolvedIssues: Issue[];
+  // In both with the same severity (as found in head)
+  unchangedIssues: Issue[];
+  severityChanged: SeverityChange[];
+  stats: Record<ComparedStat, StatDelta>;
+  severities: Record<IssueSeverity, StatDelta>;
+  // Overall health score; null unless both reports have one
+  health: StatDelta | null;
+}
+
+const SEVERITIES: IssueSeverity[] = ['critical', 'error', 'warning', 'info'];
+
+// Reports written before fingerprints existed fall back to what identified an issue then
+const matchKey = (issue: Issue) => issue.fingerprint || `${issue.type}:${issue.path || ''}:${issue.message}`;
+
+const toDelta = (before: number, after: number): StatDelta => ({ before, after, delta: after - before });
+
+const describe = (report: ScanReport): ComparedReport => ({
+  project: report.project,
+  timestamp: report.timestamp,
+  ...(report.id && { id: report.id })
+});
+
+const countSeverity = (issues: Issue[], severity: IssueSeverity) =>
+  issues.filter(issue => issue.severity === severity).length;
+
+/**
+ * Matches issues of `base` (older) and `head` (newer) by fingerprint.
+ * Fingerprints repeat when the same finding occurs twice, so matches are made one to one in report order.
+ */
+export function compareReports(base: ScanReport, head: ScanReport): ReportComparison {
+  const unmatchedBase = new Map<string, Issue[]>();
+  for (const issue of base.issues) {
+    const key = matchKey(issue);
+    unmatchedBase.set(key, [...(unmatchedBase.get(key) || []), issue]);
+  }
+
+  const newIssues: Issue[] = [];
+  const unchangedIssues: Issue[] = [];
+  const severityChanged: SeverityChange[] = [];
+  for (const issue of head.issues) {
+    const previous = unmatchedBase.get(matchKey(issue))?.shift();
+    if (!previous) {
+      newIssues.push(issue);
+    } else if (previous.severity !== issue.severity) {
+      severityChanged.push({ before: previous, after: issue });
+    } else {
+      unchangedIssues.push(issue);
+    }
+  }
+  const resolvedIssues = [...unmatchedBase.values()].flat();
+
+  const stats: Record<ComparedStat, StatDelta> = {
+    issues: toDelta(base.issues.length, head.issues.length),
+    filesScanned: toDelta(base.stats.filesScanned, head.stats.filesScanned),
+    orphansFound: toDelta(base.stats.orphansFound, head.stats.orphansFound),
+    unusedDeps: toDelta(base.stats.unusedDeps, head.stats.unusedDeps),
+    suppressed: toDelta(base.stats.suppressed ?? 0, head.stats.suppressed ?? 0)
+  };
+  const severities = Object.fromEntries(SEVERITIES.map(severity => [
+    severity,
+    toDelta(countSeverity(base.issues, severity), countSeverity(head.issues, severity))
+  ])) as Record<IssueSeverity, StatDelta>;
+
+  return {
+    base: describe(base),
+    head: describe(head),
+    newIssues,
+    resolvedIssues,
+    unchangedIssues,
+    severityChanged,
+    stats,
+    severities,
+    health: base.stats.health && head.stats.health
+      ? toDelta(base.stats.health.overall, head.stats.health.overall)
+      : null
+  };
+}
+
+/**
+ * Throws when data does not look like a scan report (e.g. a wrong file was picked)
+ */
+export function assertScanReport(data: unknown, source: string): asserts data is ScanReport {
+  const report = data as Partial<ScanReport> | null;
+  if (
+    typeof report !== 'object' || report === null ||
+    typeof report.project !== 'string' ||
+    !Array.isArray(report.issues) ||
+    typeof report.stats !== 'object' || report.stats === null
+  ) {
+    throw new Error(`VALIDATION_ERROR: ${source} is not a Sanity Gate report`);
+  }
+}
@@ -0,0 +1,260 @@
+import fs from 'fs';
+import path from 'path';
+import { DEFAULT_SCORING } from './health';
+import { CATEGORIES } from './rules/catalog';
+import type { IssueSeverity, ResolvedConfig, RuleConfig, SanityGateConfig } from './types';
+
+// Looked up in the scanned project root, first match wins
+const CONFIG_FILE_NAMES = ['sanity-gate.config.json', '.sanitygaterc', '.sanitygaterc.json'];
+
+const SEVERITIES: IssueSeverity[] = ['info', 'warning', 'error', 'critical'];
+
+export const DEFAULT_CONFIG: SanityGateConfig = {
+  ignore: [],
+  entryPoints: [],
+  rules: {},
+  thresholds: {
+    largeFileBytes: 5 * 1024 * 1024,
+    depcheckTimeoutMs: 8000,
+    maxReadBytes: 2 * 1024 * 1024,
+    contentCacheBytes: 256 * 1024 * 1024
+  },
+  backupPatterns: [
+    '**/*copy*', '**/*backup*', '**/*old*', '**/*.tmp',
+    '**/*.bak', '**/*~', '**/*draft*', '**/*deneme*'
+  ],
+  allowlists: {
+    licenses: ['@img/sharp-'],
+    // Next.js default assets that are commonly unused
+    assets: ['next.svg', 'vercel.svg', 'window.svg', 'globe.svg', 'file.svg']
+  },
+  scoring: DEFAULT_SCORING
+};
+
+interface LoadConfigOptions {
+  // Explicit config file (absolute or relative to the scanned root); skips discovery
+  configPath?: string;
+  // Rule ids accepted under "rules"
+  knownRuleIds?: string[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isSeverity = (value: unknown): value is IssueSeverity =>
+  typeof value === 'string' && SEVERITIES.includes(value as IssueSeverity);
+
+/**
+ * Validates raw config JSON and merges it over the defaults.
+ * Collects every problem so users can fix the file in one go.
+ */
+function validateConfig(raw: unknown, knownRuleIds?: string[]): SanityGateConfig {
+  const errors: string[] = [];
+  const config: SanityGateConfig = {
+    ignore: [...DEFAULT_CONFIG.ignore],
+    entryPoints: [...DEFAULT_CONFIG.entryPoints],
+    rules: {},
+    thresholds: { ...DEFAULT_CONFIG.thresholds },
+    backupPatterns: [...DEFAULT_CONFIG.backupPatterns],
+    allowlists: {
+      licenses: [...DEFAULT_CONFIG.allowlists.licenses],
+      assets: [...DEFAULT_CONFIG.allowlists.assets]
+    },
+    scoring: {
+      severityWeights: { ...DEFAULT_CONFIG.scoring.severityWeights },
+      categoryWeights: { ...DEFAULT_CONFIG.scoring.categoryWeights }
+    }
+  };
+
+  if (!isPlainObject(raw)) {
+    throw new Error('CONFIG_ERROR: Config must be a JSON object');
+  }
+
+  const allowedKeys = ['$schema', 'ignore', 'entryPoints', 'rules', 'thresholds', 'backupPatterns', 'allowlists', 'scoring'];
+  for (const key of Object.keys(raw)) {
+    if (!allowedKeys.includes(key)) {
+      errors.push(`unknown option "${key}" (expected one of: ${allowedKeys.slice(1).join(', ')})`);
+    }
+  }
+
+  if (raw.ignore !== undefined) {
+    if (isStringArray(raw.ignore)) {
+      config.ignore = raw.ignore;
+    } else {
+      errors.push('"ignore" must be an array of glob strings');
+    }
+  }
+
+  if (raw.entryPoints !== undefined) {
+    if (isStringArray(raw.entryPoints)) {
+      config.entryPoints = raw.entryPoints;
+    } else {
+      errors.push('"entryPoints" must be an array of glob strings');
+    }
+  }
+
+  if (raw.backupPatterns !== undefined) {
+    if (isStringArray(raw.backupPatterns)) {
+      config.backupPatterns = raw.backupPatterns;
+    } else {
+      errors.push('"backupPatterns" must be an array of glob strings');
+    }
+  }
+
+  if (raw.rules !== undefined) {
+    if (!isPlainObject(raw.rules)) {
+      errors.push('"rules" must be an object keyed by rule id');
+    } else {
+      for (const [ruleId, value] of Object.entries(raw.rules)) {
+        if (knownRuleIds && !knownRuleIds.includes(ruleId)) {
+          errors.push(`"rules.${ruleId}" is not a known rule id`);
+          continue;
+        }
+        const ruleConfig = parseRuleConfig(value);
+        if (ruleConfig) {
+          config.rules[ruleId] = ruleConfig;
+        } else {
+          errors.push(`"rules.${ruleId}" must be "off", "on", a severity (${SEVERITIES.join(', ')}) or { "enabled"?: boolean, "severity"?: string }`);
+        }
+      }
+    }
+  }
+
+  if (raw.thresholds !== undefined) {
+    if (!isPlainObject(raw.thresholds)) {
+      errors.push('"thresholds" must be an object');
+    } else {
+      for (const [key, value] of Object.entries(raw.thresholds)) {
+        if (!(key in config.thresholds)) {
+          errors.push(`unknown threshold "thresholds.${key}" (expected one of: ${Object.keys(config.thresholds).join(', ')})`);
+        } else if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+          errors.push(`"thresholds.${key}" must be a positive number`);
+        } else {
+          config.thresholds[key as keyof SanityGateConfig['thresholds']] = value;
+        }
+      }
+    }
+  }
+
+  if (raw.allowlists !== undefined) {
+    if (!isPlainObject(raw.allowlists)) {
+      errors.push('"allowlists" must be an object');
+    } else {
+      for (const [key, value] of Object.entries(raw.allowlists)) {
+        if (!(key in config.allowlists)) {
+          errors.push(`unknown allowlist "allowlists.${key}" (expected one of: ${Object.keys(config.allowlists).join(', ')})`);
+        } else if (!isStringArray(value)) {
+          errors.push(`"allowlists.${key}" must be an array of strings`);
+        } else {
+          config.allowlists[key as keyof SanityGateConfig['allowlists']] = value;
+        }
+      }
+    }
+  }
+
+  if (raw.scoring !== undefined) {
+    if (!isPlainObject(raw.scoring)) {
+      errors.push('"scoring" must be an object');
+    } else {
+      const { severityWeights, categoryWeights, ...rest } = raw.scoring;
+      for (const key of Object.keys(rest)) {
+        errors.push(`unknown option "scoring.${key}" (expected one of: severityWeights, categoryWeights)`);
+      }
+      // Weights are merged over the defaults, so a config only lists the ones it changes
+      const weightGroups = [
+        { name: 'severityWeights', value: severityWeights, keys: SEVERITIES as string[], target: config.scoring.severityWeights },
+        { name: 'categoryWeights', value: categoryWeights, keys: CATEGORIES.map(category => category.id as string), target: config.scoring.categoryWeights }
+      ];
+      for (const { name, value, keys, target } of weightGroups) {
+        if (value === undefined) continue;
+        if (!isPlainObject(value)) {
+          errors.push(`"scoring.${name}" must be an object`);
+          continue;
+        }
+        for (const [key, weight] of Object.entries(value)) {
+          if (!keys.includes(key)) {
+            errors.push(`unknown key "scoring.${name}.${key}" (expected one of: ${keys.join(', ')})`);
+          } else if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+            errors.push(`"scoring.${name}.${key}" must be a number of at least 0`);
+          } else {
+            (target as Record<string, number>)[key] = weight;
+          }
+        }
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`CONFIG_ERROR: ${errors.join('; ')}`);
+  }
+
+  return config;
+}
+
+function parseRuleConfig(value: unknown): RuleConfig | null {
+  if (value === 'off' || value === false) return { enabled: false };
+  if (value === 'on' || value === true) return { enabled: true };
+  if (isSeverity(value)) return { enabled: true, severity: value };
+  if (!isPlainObject(value)) return null;
+
+  const { enabled, severity, ...rest } = value;
+  if (Object.keys(rest).length > 0) return null;
+  if (enabled !== undefined && typeof enabled !== 'boolean') return null;
+  if (severity !== undefined && !isSeverity(severity)) return null;
+  return {
+    enabled: enabled ?? true,
+    ...(severity !== undefined && { severity })
+  };
+}
+
+async function findConfigFile(rootPath: string): Promise<string | null> {
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = path.join(rootPath, name);
+    const exists = await fs.promises
+      .access(candidate)
+      .then(() => true)
+      .catch(() => false);
+    if (exists) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Discovers and loads the project config, falling back to defaults when none exists
+ */
+export async function loadConfig(rootPath: string, options: LoadConfigOptions = {}): Promise<ResolvedConfig> {
+  const configFile = options.configPath
+    ? path.resolve(rootPath, options.configPath)
+    : await findConfigFile(rootPath);
+
+  if (!configFile) {
+    return { source: null, ...validateConfig({}) };
+  }
+
+  const displayName = path.relative(rootPath, configFile) || path.basename(configFile);
+
+  let content: string;
+  try {
+    content = await fs.promises.readFile(configFile, 'utf-8');
+  } catch {
+    throw new Error(`CONFIG_ERROR: Cannot read config file ${displayName}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error: unknown) {
+    const reason = error instanceof Error ? error.message : 'invalid JSON';
+    throw new Error(`CONFIG_ERROR: ${displayName} is not valid JSON (${reason})`);
+  }
+
+  try {
+    return { source: displayName, ...validateConfig(raw, options.knownRuleIds) };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(message.replace('CONFIG_ERROR: ', `CONFIG_ERROR: ${displayName}: `));
+  }
+}
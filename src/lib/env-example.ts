@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+import { loadConfig } from './config';
+import { ENV_EXAMPLE_FILES, looksLikeSecretValue, parseEnvFile } from './env';
+import type { EnvEntry } from './env';
+import { createRuleContext } from './rules';
+import type { LoggerFunction } from './types';
+
+/**
+ * Builds an example env file from the variables the code reads, grouped by the files reading them.
+ * Values (and "# KEY=value" commenting) of variables already documented are kept unless they look like secrets.
+ */
+
+interface EnvExampleOptions {
+  // Explicit config file instead of discovering one in the root (its ignores decide which files are read)
+  configPath?: string;
+}
+
+interface GeneratedEnvExample {
+  // The existing example file, or .env.example; relative to the root
+  file: string;
+  content: string;
+  variables: string[];
+  // Documented in the existing file but no longer read by the code
+  removed: string[];
+}
+
+const HEADER = [
+  '# Environment variables read by this project, grouped by the files that read them.',
+  '# Generated by `sanity-gate env-example`; copy to .env and fill in real values there.'
+];
+
+export async function generateEnvExample(
+  rootPath: string,
+  logger?: LoggerFunction,
+  options: EnvExampleOptions = {}
+): Promise<GeneratedEnvExample> {
+  const resolvedPath = path.resolve(rootPath);
+  const config = await loadConfig(resolvedPath, { configPath: options.configPath });
+  const context = createRuleContext(resolvedPath, logger, config);
+  const usage = await context.getEnvUsage();
+
+  let file = ENV_EXAMPLE_FILES[0];
+  let existing: EnvEntry[] = [];
+  for (const candidate of ENV_EXAMPLE_FILES) {
+    const content = await context.readFile(candidate);
+    if (content !== null) {
+      file = candidate;
+      existing = parseEnvFile(content);
+      break;
+    }
+  }
+  const previous = new Map(existing.map(entry => [entry.key, entry]));
+
+  // Variables read by exactly the same files share a group
+  const groups = new Map<string, string[]>();
+  for (const [name, references] of usage) {
+    const groupKey = references.map(reference => reference.file).join(', ');
+    groups.set(groupKey, [...(groups.get(groupKey) || []), name]);
+  }
+
+  const lines = [...HEADER];
+  for (const [files, names] of [...groups].sort(([a], [b]) => a.localeCompare(b))) {
+    lines.push('', `# ${files}`);
+    for (const name of names) {
+      const entry = previous.get(name);
+      const value = entry && !looksLikeSecretValue(name, entry.value) ? entry.value : '';
+      lines.push(`${entry?.commented ? '# ' : ''}${name}=${/[\s#'"]/.test(value) ? JSON.stringify(value) : value}`);
+    }
+  }
+
+  return {
+    file,
+    content: `${lines.join('\n')}\n`,
+    variables: [...usage.keys()],
+    removed: existing.map(entry => entry.key).filter(key => !usage.has(key))
+  };
+}
+
+/**
+ * Writes a generated example file into the project root and returns its absolute path
+ */
+export async function writeEnvExample(rootPath: string, generated: GeneratedEnvExample): Promise<string> {
+  const target = path.join(path.resolve(rootPath), generated.file);
+  await fs.promises.writeFile(target, generated.content, 'utf-8');
+  return target;
+}
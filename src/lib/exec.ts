@@ -0,0 +1,91 @@
+import { spawn } from 'child_process';
+import type { ChildProcess } from 'child_process';
+import { createAbortError } from './abort';
+
+interface ExecOptions {
+  cwd: string;
+  env?: NodeJS.ProcessEnv;
+  signal?: AbortSignal;
+}
+
+interface ExecResult {
+  stdout: string;
+  stderr: string;
+}
+
+// Failed commands reject with their output attached, like child_process.exec
+export type ExecError = Error & Partial<ExecResult> & { code?: number | null };
+
+// Commands get their own process group so that cancelling also stops what they spawn (npx -> tsc)
+const useProcessGroup = process.platform !== 'win32';
+
+// Commands still running, so a hard exit can stop them instead of leaving their detached groups behind
+const runningChildren = new Set<ChildProcess>();
+
+function killProcessTree(child: ChildProcess) {
+  try {
+    if (useProcessGroup && child.pid) {
+      process.kill(-child.pid, 'SIGTERM');
+    } else {
+      child.kill();
+    }
+  } catch {
+    // Already exited
+  }
+}
+
+/**
+ * Kills every command started by execCommand that is still running. For exits that cannot wait for an
+ * abort to settle (a second Ctrl+C); detached process groups would otherwise outlive this process.
+ */
+export function killRunningCommands(): void {
+  for (const child of runningChildren) killProcessTree(child);
+  runningChildren.clear();
+}
+
+/**
+ * Runs a shell command and collects its output. Rejects when it exits non-zero,
+ * and with SCAN_ABORTED after killing the command's process tree when the signal aborts.
+ */
+export function execCommand(command: string, { cwd, env, signal }: ExecOptions): Promise<ExecResult> {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      cwd,
+      env,
+      shell: true,
+      detached: useProcessGroup,
+      windowsHide: true,
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+    runningChildren.add(child);
+    let stdout = '';
+    let stderr = '';
+    child.stdout.setEncoding('utf-8').on('data', (chunk: string) => { stdout += chunk; });
+    child.stderr.setEncoding('utf-8').on('data', (chunk: string) => { stderr += chunk; });
+
+    const kill = () => killProcessTree(child);
+    signal?.addEventListener('abort', kill, { once: true });
+
+    child.on('error', (error: ExecError) => {
+      runningChildren.delete(child);
+      signal?.removeEventListener('abort', kill);
+      reject(Object.assign(error, { stdout, stderr }));
+    });
+    child.on('close', code => {
+      runningChildren.delete(child);
+      signal?.removeEventListener('abort', kill);
+      if (signal?.aborted) {
+        reject(createAbortError());
+      } else if (code === 0) {
+        resolve({ stdout, stderr });
+      } else {
+        const error: ExecError = new Error(`Command failed: ${command}`);
+        reject(Object.assign(error, { code, stdout, stderr }));
+      }
+    });
+  });
+}
@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import type { Issue } from './types';
+
+/**
+ * Content-based issue fingerprints.
+ * A fingerprint hashes the rule id with a normalized code window (or another stable identity such as a
+ * package name), never absolute paths or line numbers, so reports from different machines, branches
+ * and renamed files can be matched up.
+ */
+
+const FINGERPRINT_LENGTH = 16;
+
+const normalizeWhitespace = (text: string) => text.trim().replace(/\s+/g, ' ');
+
+export function computeFingerprint(ruleId: string, key: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${ruleId}\0${key.replace(/\\/g, '/')}`)
+    .digest('hex')
+    .slice(0, FINGERPRINT_LENGTH);
+}
+
+/**
+ * Returns the line containing `index` plus `radius` lines on each side, with whitespace collapsed
+ * and blank lines dropped, so indentation changes and moved code keep the same window.
+ */
+export function getCodeWindow(content: string, index: number, radius = 1): string {
+  const lines = content.split('\n');
+  const lineIndex = content.slice(0, Math.max(0, index)).split('\n').length - 1;
+  return lines
+    .slice(Math.max(0, lineIndex - radius), lineIndex + radius + 1)
+    .map(normalizeWhitespace)
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Gives repeated fingerprints within the same file an occurrence suffix.
+ * The first occurrence keeps its plain fingerprint so adding a duplicate does not change existing ones.
+ */
+export function disambiguateFingerprints(issues: Issue[]): void {
+  const seen = new Map<string, number>();
+  for (const issue of issues) {
+    const scopeKey = `${issue.path || ''}\0${issue.fingerprint}`;
+    const count = seen.get(scopeKey) || 0;
+    seen.set(scopeKey, count + 1);
+    if (count > 0) {
+      issue.fingerprint = computeFingerprint(issue.type, `${issue.fingerprint}#${count + 1}`);
+    }
+  }
+}
@@ -0,0 +1,278 @@
+import fs from 'fs';
+import path from 'path';
+import { isAbortError, throwIfAborted } from './abort';
+import { execCommand } from './exec';
+import { createRuleContext, getRule, getRules } from './rules';
+import type { FixOperation, RuleContext } from './rules';
+import { toError } from './rules/helpers';
+import { scanProject } from './scan';
+import type { ScanOptions } from './scan';
+import { createUnifiedDiff } from './text-diff';
+import type { Issue, LoggerFunction } from './types';
+
+/**
+ * Mechanical fixes for findings whose rule declares one (stray files, package.json entries).
+ * fixProject re-scans with the fixable rules, merges the fixes into one change per file,
+ * then either only reports the changes (dry run) or applies them.
+ */
+
+interface FixOptions extends Pick<ScanOptions, 'configPath' | 'useCache' | 'signal'> {
+  // Only fix issues with these ids and/or of these types; everything fixable when both are unset
+  issueIds?: string[];
+  types?: string[];
+  // Plan and preview without touching any file
+  dryRun?: boolean;
+  // Apply even when the git working tree has uncommitted changes, or the project is not in a git repository
+  force?: boolean;
+}
+
+interface FileChange {
+  kind: 'delete' | 'edit';
+  // Relative to the project root
+  path: string;
+  // Issues resolved by this change
+  issueIds: string[];
+  // e.g. 'remove dependencies "lodash"'; deletions have none
+  descriptions: string[];
+  // Unified diff; deleted directories and binary files get headers only
+  diff: string;
+}
+
+interface SkippedFix {
+  issue: Issue;
+  reason: string;
+}
+
+export interface FixResult {
+  rootPath: string;
+  dryRun: boolean;
+  changes: FileChange[];
+  // Issues the changes resolve (or would resolve, in a dry run)
+  fixed: Issue[];
+  skipped: SkippedFix[];
+  // Requested issue ids the scan did not report
+  notFound: string[];
+}
+
+interface PlannedFix {
+  issue: Issue;
+  operation: FixOperation;
+}
+
+/**
+ * Issue types whose rules declare a fix
+ */
+const getFixableTypes = () => getRules().filter(rule => rule.fix).map(rule => rule.id);
+
+// Rules return paths from the scan; a custom rule must still not reach outside the project
+function resolveInside(rootPath: string, relativePath: string): string {
+  const absolutePath = path.resolve(rootPath, relativePath);
+  if (absolutePath === rootPath || !absolutePath.startsWith(`${rootPath}${path.sep}`)) {
+    throw new Error(`SECURITY_ERROR: Fix targets a path outside the project: ${relativePath}`);
+  }
+  return absolutePath;
+}
+
+// Files anywhere below a directory, including those the scan ignores; symlinks count as files
+async function containsFiles(absolutePath: string): Promise<boolean> {
+  for (const entry of await fs.promises.readdir(absolutePath, { withFileTypes: true })) {
+    if (!entry.isDirectory() || await containsFiles(path.join(absolutePath, entry.name))) return true;
+  }
+  return false;
+}
+
+// Removes a directory holding nothing but empty directories; rmdir fails rather than deleting a file added since
+async function removeEmptyDirectory(absolutePath: string): Promise<void> {
+  for (const entry of await fs.promises.readdir(absolutePath, { withFileTypes: true })) {
+    if (entry.isDirectory()) await removeEmptyDirectory(path.join(absolutePath, entry.name));
+  }
+  await fs.promises.rmdir(absolutePath);
+}
+
+// Null for a directory that is not empty, which is never deleted
+async function describeDeletion(context: RuleContext, relativePath: string): Promise<string | null> {
+  const absolutePath = resolveInside(context.rootPath, relativePath);
+  const stats = await fs.promises.lstat(absolutePath);
+  if (stats.isDirectory()) {
+    return await containsFiles(absolutePath) ? null : `--- a/${relativePath}/ (directory)\n+++ /dev/null`;
+  }
+  const content = await context.readFile(relativePath);
+  return content === null
+    ? `Binary files a/${relativePath} and /dev/null differ`
+    : createUnifiedDiff(relativePath, content, null);
+}
+
+// Null when the project is not in a git repository, which leaves nothing to compare against
+async function countUncommittedChanges(rootPath: string, signal?: AbortSignal): Promise<number | null> {
+  try {
+    const { stdout } = await execCommand('git status --porcelain -- .', { cwd: rootPath, signal });
+    return stdout.split('\n').filter(line => line.trim()).length;
+  } catch (error: unknown) {
+    if (isAbortError(error)) throw error;
+    return null;
+  }
+}
+
+/**
+ * Merges planned fixes into one change per file. Edits run in issue order on the file's current content;
+ * an edit that no longer applies (or targets a file another fix deletes) is skipped.
+ */
+async function buildChanges(context: RuleContext, planned: PlannedFix[], skipped: SkippedFix[]) {
+  const deletions = new Map<string, Issue[]>();
+  const edits = new Map<string, PlannedFix[]>();
+  for (const fix of planned) {
+    const { path: filePath } = fix.operation;
+    if (fix.operation.kind === 'delete') {
+      deletions.set(filePath, [...(deletions.get(filePath) || []), fix.issue]);
+    } else {
+      edits.set(filePath, [...(edits.get(filePath) || []), fix]);
+    }
+  }
+
+  const changes: FileChange[] = [];
+  const contents = new Map<string, string>();
+  const fixed: Issue[] = [];
+
+  for (const [filePath, issues] of deletions) {
+    const diff = await describeDeletion(context, filePath);
+    if (diff === null) {
+      skipped.push(...issues.map(issue => ({ issue, reason: `${filePath} is not empty` })));
+      deletions.delete(filePath);
+      continue;
+    }
+    changes.push({
+      kind: 'delete',
+      path: filePath,
+      issueIds: issues.map(issue => issue.id),
+      descriptions: [],
+      diff
+    });
+    fixed.push(...issues);
+  }
+
+  for (const [filePath, fixes] of edits) {
+    if (deletions.has(filePath)) {
+      skipped.push(...fixes.map(({ issue }) => ({ issue, reason: `${filePath} is deleted by another fix` })));
+      continue;
+    }
+
+    const before = await fs.promises.readFile(resolveInside(context.rootPath, filePath), 'utf-8');
+    let after = before;
+    const applied: PlannedFix[] = [];
+    for (const fix of fixes) {
+      if (fix.operation.kind !== 'edit') continue;
+      try {
+        after = fix.operation.apply(after);
+        applied.push(fix);
+      } catch (error: unknown) {
+        skipped.push({ issue: fix.issue, reason: toError(error).message.replace(/^[A-Z_]+: /, '') });
+      }
+    }
+    if (applied.length === 0 || after === before) continue;
+
+    contents.set(filePath, after);
+    changes.push({
+      kind: 'edit',
+      path: filePath,
+      issueIds: applied.map(({ issue }) => issue.id),
+      descriptions: applied.map(({ operation }) => (operation.kind === 'edit' ? operation.description : '')),
+      diff: createUnifiedDiff(filePath, before, after)
+    });
+    fixed.push(...applied.map(({ issue }) => issue));
+  }
+
+  return { changes, contents, fixed };
+}
+
+/**
+ * Scans the project for fixable findings and resolves the selected ones.
+ * Applying refuses to run on a dirty git working tree or outside a git repository unless `force` is set,
+ * so every change can be reviewed and reverted with git; a dry run never touches files.
+ */
+export async function fixProject(
+  projectPath: string,
+  logger?: LoggerFunction,
+  options: FixOptions = {}
+): Promise<FixResult> {
+  const log = logger || (() => {});
+  const fixableTypes = getFixableTypes();
+  const unknownTypes = (options.types || []).filter(type => !fixableTypes.includes(type));
+  if (unknownTypes.length > 0) {
+    throw new Error(
+      `VALIDATION_ERROR: No automatic fix for ${unknownTypes.join(', ')}. Fixable types: ${fixableTypes.join(', ')}`
+    );
+  }
+
+  const selectedTypes = new Set(options.types?.length ? options.types : fixableTypes);
+  const report = await scanProject(projectPath, log, {
+    // Skipping rather than replacing rules keeps config entries for the other rules valid
+    disabledRules: getRules().map(rule => rule.id).filter(id => !selectedTypes.has(id)),
+    configPath: options.configPath,
+    useCache: options.useCache,
+    signal: options.signal
+  });
+  const rootPath = report.rootPath || path.resolve(projectPath);
+
+  const requestedIds = options.issueIds?.length ? new Set(options.issueIds) : null;
+  const candidates = report.issues.filter(issue =>
+    selectedTypes.has(issue.type) && (!requestedIds || requestedIds.has(issue.id))
+  );
+  const notFound = requestedIds
+    ? [...requestedIds].filter(id => !candidates.some(issue => issue.id === id))
+    : [];
+
+  const context = createRuleContext(rootPath, log, report.config, options.signal);
+  const planned: PlannedFix[] = [];
+  const skipped: SkippedFix[] = [];
+  for (const issue of candidates) {
+    const rule = getRule(issue.type);
+    try {
+      const operation = rule?.fix ? await rule.fix(issue, context) : null;
+      if (operation) {
+        resolveInside(rootPath, operation.path);
+        planned.push({ issue, operation });
+      } else {
+        skipped.push({ issue, reason: 'No safe automatic fix for this finding' });
+      }
+    } catch (error: unknown) {
+      throwIfAborted(options.signal);
+      skipped.push({ issue, reason: toError(error).message.replace(/^[A-Z_]+: /, '') });
+    }
+  }
+
+  const { changes, contents, fixed } = await buildChanges(context, planned, skipped);
+  const result: FixResult = { rootPath, dryRun: Boolean(options.dryRun), changes, fixed, skipped, notFound };
+  if (options.dryRun || changes.length === 0) {
+    return result;
+  }
+
+  if (!options.force) {
+    const uncommitted = await countUncommittedChanges(rootPath, options.signal);
+    if (uncommitted === null) {
+      throw new Error(
+        'NO_GIT_REPOSITORY: Project is not in a git repository, so fixes could not be reviewed or reverted. Put it under version control first, or force the fix.'
+      );
+    }
+    if (uncommitted) {
+      throw new Error(
+        `DIRTY_TREE: Working tree has ${uncommitted} uncommitted change(s). Commit or stash them first so fixes can be reviewed and reverted, or force the fix.`
+      );
+    }
+  }
+
+  throwIfAborted(options.signal);
+  for (const change of changes) {
+    const absolutePath = resolveInside(rootPath, change.path);
+    if (change.kind === 'delete') {
+      // Deleting an empty directory may already have removed empty directories below it
+      const stats = await fs.promises.lstat(absolutePath).catch(() => null);
+      if (!stats) continue;
+      await (stats.isDirectory() ? removeEmptyDirectory(absolutePath) : fs.promises.unlink(absolutePath));
+    } else {
+      await fs.promises.writeFile(absolutePath, contents.get(change.path) as string, 'utf-8');
+    }
+    log('info', 'fix', 'Applied fix', { kind: change.kind, path: change.path, issues: change.issueIds.length });
+  }
+
+  return result;
+}
@@ -1,4 +1,7 @@
-import { ScanReport, Issue } from './scan';
+import type { ComparedStat, ReportComparison, StatDelta } from './compare';
+import type { FixResult } from './fix';
+import type { ScanProgressState } from './progress';
+import { ScanReport, Issue, HealthScore } from './scan';
 
 const severityIcons: Record<string, string> = {
   info: '[i]',
@@ -16,10 +19,15 @@ const severityColors: Record<string, string> = {
 
 const resetColor = '\x1b[0m';
 
+interface TableOptions {
+  // List issues silenced by inline suppression comments
+  showSuppressed?: boolean;
+}
+
 /**
  * Formats scan report as a human-readable table
  */
-export function formatTable(report: ScanReport): string {
+export function formatTable(report: ScanReport, options: TableOptions = {}): string {
   const lines: string[] = [];
   
   // Header
@@ -29,15 +37,37 @@ export function formatTable(report: ScanReport): string {
   lines.push(`  Project: ${report.project}`);
   lines.push(`  Timestamp: ${new Date(report.timestamp).toLocaleString()}`);
   lines.push(`  Total Issues: ${report.issues.length}`);
+  if (report.stats.health) {
+    lines.push(`  Health Score: ${formatHealth(report.stats.health)}`);
+  }
   lines.push(`  Files Scanned: ${report.stats.filesScanned}`);
   lines.push(`  Orphans Found: ${report.stats.orphansFound}`);
   lines.push(`  Unused Dependencies: ${report.stats.unusedDeps}`);
+  if (report.stats.suppressed > 0) {
+    lines.push(`  Suppressed: ${report.stats.suppressed}`);
+  }
+  if (report.stats.cache) {
+    const { hits, misses, hitRate } = report.stats.cache;
+    lines.push(`  Cache: ${Math.round(hitRate * 100)}% hit rate (${hits}/${hits + misses})`);
+  }
+  if (report.baseline) {
+    lines.push(`  Baseline: ${report.baseline.newIssues} new, ${report.baseline.baselinedIssues} baselined, ${report.baseline.fixed.length} fixed`);
+  }
+  if (report.config?.source) {
+    lines.push(`  Config: ${report.config.source}`);
+  }
   lines.push('='.repeat(80));
   lines.push('');
 
+  const footerLines = [
+    ...formatBaselineFixed(report),
+    ...(options.showSuppressed ? formatSuppressed(report) : [])
+  ];
+
   if (report.issues.length === 0) {
     lines.push('  No issues found!');
     lines.push('');
+    lines.push(...footerLines);
     return lines.join('\n');
   }
 
@@ -69,9 +99,11 @@ export function formatTable(report: ScanReport): string {
     for (const issue of sortedIssues) {
       const icon = severityIcons[issue.severity] || '-';
       const color = severityColors[issue.severity] || '';
-      const pathStr = issue.path ? ` [${issue.path}]` : '';
+      const locationStr = issue.location ? `:${issue.location.startLine}:${issue.location.startColumn}` : '';
+      const pathStr = issue.path ? ` [${issue.path}${locationStr}]` : '';
+      const baselineStr = issue.baselineStatus === 'baselined' ? ' (baseline)' : '';
       
-      lines.push(`  ${color}${icon}${resetColor} ${issue.message}${pathStr}`);
+      lines.push(`  ${color}${icon}${resetColor} ${issue.message}${pathStr}${baselineStr}`);
       
       if (issue.snippet) {
         const snippetLines = issue.snippet.split('\n').slice(0, 3);
@@ -99,9 +131,57 @@ export function formatTable(report: ScanReport): string {
   }
   lines.push('='.repeat(80));
 
+  if (footerLines.length > 0) {
+    lines.push('');
+    lines.push(...footerLines);
+  }
+
   return lines.join('\n');
 }
 
+// "82/100 (lowest: security 56, env 71)", naming up to three categories below 100
+function formatHealth(health: HealthScore): string {
+  const lowest = Object.entries(health.categories)
+    .filter(([, score]) => score < 100)
+    .sort(([, a], [, b]) => a - b)
+    .slice(0, 3)
+    .map(([category, score]) => `${category} ${score}`);
+  return `${health.overall}/100${lowest.length > 0 ? ` (lowest: ${lowest.join(', ')})` : ''}`;
+}
+
+function formatBaselineFixed(report: ScanReport): string[] {
+  const fixed = report.baseline?.fixed || [];
+  if (!report.baseline || fixed.length === 0) return [];
+
+  const lines: string[] = [];
+  lines.push(`  FIXED SINCE BASELINE (${fixed.length}) - run with --update-baseline to shrink ${report.baseline.source}`);
+  lines.push('-'.repeat(80));
+  for (const entry of fixed.slice(0, 10)) {
+    lines.push(`  ${entry.type} ${entry.message}${entry.path ? ` [${entry.path}]` : ''}`);
+  }
+  if (fixed.length > 10) {
+    lines.push(`  ... ${fixed.length - 10} more`);
+  }
+  lines.push('');
+  return lines;
+}
+
+function formatSuppressed(report: ScanReport): string[] {
+  const suppressed = report.suppressed || [];
+  if (suppressed.length === 0) return [];
+
+  const lines: string[] = [];
+  lines.push(`  SUPPRESSED (${suppressed.length})`);
+  lines.push('-'.repeat(80));
+  for (const issue of suppressed) {
+    const location = issue.path ? `${issue.path}:${issue.suppression.line}` : `line ${issue.suppression.line}`;
+    lines.push(`  ${issue.type} ${issue.message} [${location}]`);
+    lines.push(`    ${issue.suppression.scope === 'file' ? 'file-level' : 'next-line'}: ${issue.suppression.reason || '(no reason given)'}`);
+  }
+  lines.push('');
+  return lines;
+}
+
 /**
  * Formats scan report as JSON
  */
@@ -109,4 +189,197 @@ export function formatJSON(report: ScanReport): string {
   return JSON.stringify(report, null, 2);
 }
 
+/**
+ * Formats a one-line progress summary, e.g. "[5/22] Analysing file contents - 120/340 files - 15 issues - 3.2s"
+ */
+export function formatProgressLine(state: ScanProgressState): string {
+  const parts = [`[${state.phase?.index ?? 0}/${state.totalPhases}] ${state.phase?.label ?? 'Starting'}`];
+  if (state.phase?.id === 'content-analysis' && state.filesTotal > 0) {
+    parts.push(`${state.filesProcessed}/${state.filesTotal} files`);
+  }
+  parts.push(`${state.issuesFound} issue${state.issuesFound === 1 ? '' : 's'}`);
+  parts.push(`${(state.elapsedMs / 1000).toFixed(1)}s`);
+  return parts.join(' - ');
+}
+
+const COMPARED_STAT_LABELS: Record<ComparedStat, string> = {
+  issues: 'Total Issues',
+  filesScanned: 'Files Scanned',
+  orphansFound: 'Orphans Found',
+  unusedDeps: 'Unused Dependencies',
+  suppressed: 'Suppressed'
+};
+
+const formatDelta = ({ delta }: StatDelta) => (delta > 0 ? `+${delta}` : String(delta));
+
+const describeComparedIssue = (issue: Issue) => {
+  const locationStr = issue.location ? `:${issue.location.startLine}` : '';
+  return `${issue.type} ${issue.message}${issue.path ? ` [${issue.path}${locationStr}]` : ''}`;
+};
+
+/**
+ * Formats a report comparison as a human-readable table
+ */
+export function formatComparisonTable(comparison: ReportComparison): string {
+  const { base, head } = comparison;
+  const lines: string[] = [];
+
+  lines.push('='.repeat(80));
+  lines.push('  Sanity Gate - Report Comparison');
+  lines.push('='.repeat(80));
+  lines.push(`  Base: ${base.project} @ ${new Date(base.timestamp).toLocaleString()}`);
+  lines.push(`  Head: ${head.project} @ ${new Date(head.timestamp).toLocaleString()}`);
+  if (comparison.health) {
+    lines.push(`  Health Score: ${comparison.health.before} -> ${comparison.health.after} (${formatDelta(comparison.health)})`);
+  }
+  lines.push(`  New: ${comparison.newIssues.length}, Resolved: ${comparison.resolvedIssues.length}, ` +
+    `Severity changed: ${comparison.severityChanged.length}, Unchanged: ${comparison.unchangedIssues.length}`);
+  lines.push('='.repeat(80));
+  lines.push('');
+
+  lines.push(`  ${'STAT'.padEnd(24)}${'BASE'.padStart(8)}${'HEAD'.padStart(8)}${'DELTA'.padStart(8)}`);
+  lines.push('-'.repeat(80));
+  const statRows: [string, StatDelta][] = [
+    ...(Object.keys(COMPARED_STAT_LABELS) as ComparedStat[]).map(stat =>
+      [COMPARED_STAT_LABELS[stat], comparison.stats[stat]] as [string, StatDelta]),
+    ...Object.entries(comparison.severities).map(([severity, delta]) =>
+      [`  ${severity}`, delta] as [string, StatDelta])
+  ];
+  for (const [label, delta] of statRows) {
+    lines.push(`  ${label.padEnd(24)}${String(delta.before).padStart(8)}${String(delta.after).padStart(8)}${formatDelta(delta).padStart(8)}`);
+  }
+  lines.push('');
+
+  const sections: [string, Issue[]][] = [
+    ['NEW', comparison.newIssues],
+    ['RESOLVED', comparison.resolvedIssues]
+  ];
+  for (const [title, issues] of sections) {
+    if (issues.length === 0) continue;
+    lines.push(`  ${title} (${issues.length})`);
+    lines.push('-'.repeat(80));
+    for (const issue of issues) {
+      const icon = severityIcons[issue.severity] || '-';
+      const color = severityColors[issue.severity] || '';
+      lines.push(`  ${color}${icon}${resetColor} ${describeComparedIssue(issue)}`);
+    }
+    lines.push('');
+  }
+
+  if (comparison.severityChanged.length > 0) {
+    lines.push(`  SEVERITY CHANGED (${comparison.severityChanged.length})`);
+    lines.push('-'.repeat(80));
+    for (const { before, after } of comparison.severityChanged) {
+      lines.push(`  ${before.severity} -> ${after.severity} ${describeComparedIssue(after)}`);
+    }
+    lines.push('');
+  }
+
+  lines.push('='.repeat(80));
+  return lines.join('\n');
+}
+
+// Pipes would end a table cell early
+const escapeMarkdownCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+/**
+ * Formats a report comparison as Markdown, e.g. for a pull request comment
+ */
+export function formatComparisonMarkdown(comparison: ReportComparison): string {
+  const { base, head } = comparison;
+  const lines: string[] = [];
+
+  lines.push(`## Sanity Gate: ${head.project} compared to ${base.timestamp.slice(0, 10)}`);
+  lines.push('');
+  lines.push(`**${comparison.newIssues.length}** new, **${comparison.resolvedIssues.length}** resolved, ` +
+    `**${comparison.severityChanged.length}** severity changed, ${comparison.unchangedIssues.length} unchanged.`);
+  lines.push('');
+  lines.push('| Stat | Base | Head | Delta |');
+  lines.push('| --- | ---: | ---: | ---: |');
+  if (comparison.health) {
+    const { before, after } = comparison.health;
+    lines.push(`| Health Score | ${before} | ${after} | ${formatDelta(comparison.health)} |`);
+  }
+  for (const stat of Object.keys(COMPARED_STAT_LABELS) as ComparedStat[]) {
+    const delta = comparison.stats[stat];
+    lines.push(`| ${COMPARED_STAT_LABELS[stat]} | ${delta.before} | ${delta.after} | ${formatDelta(delta)} |`);
+  }
+  for (const [severity, delta] of Object.entries(comparison.severities)) {
+    lines.push(`| ${severity} | ${delta.before} | ${delta.after} | ${formatDelta(delta)} |`);
+  }
+
+  const issueTable = (title: string, rows: string[]) => {
+    if (rows.length === 0) return;
+    lines.push('');
+    lines.push(`### ${title} (${rows.length})`);
+    lines.push('');
+    lines.push('| Severity | Rule | Message | Path |');
+    lines.push('| --- | --- | --- | --- |');
+    lines.push(...rows);
+  };
+  const issueRow = (issue: Issue, severity: string = issue.severity) =>
+    `| ${severity} | ${issue.type} | ${escapeMarkdownCell(issue.message)} | ${issue.path ? `\`${issue.path}\`` : ''} |`;
+
+  issueTable('New', comparison.newIssues.map(issue => issueRow(issue)));
+  issueTable('Resolved', comparison.resolvedIssues.map(issue => issueRow(issue)));
+  issueTable('Severity changed', comparison.severityChanged.map(({ before, after }) =>
+    issueRow(after, `${before.severity} → ${after.severity}`)
+  ));
+
+  return lines.join('\n');
+}
+
+/**
+ * Formats a fix result as a file-operation list with a summary
+ */
+export function formatFixSummary(result: FixResult): string {
+  const lines: string[] = [];
+  const verb = (kind: 'delete' | 'edit') =>
+    result.dryRun ? `would ${kind}` : kind === 'delete' ? 'deleted' : 'edited';
+
+  lines.push('='.repeat(80));
+  lines.push(`  Sanity Gate - ${result.dryRun ? 'Fix Preview (dry run)' : 'Fixes Applied'}`);
+  lines.push('='.repeat(80));
+  lines.push(`  Project: ${result.rootPath}`);
+  lines.push(`  Files: ${result.changes.length}, Issues fixed: ${result.fixed.length}, Skipped: ${result.skipped.length}`);
+  lines.push('='.repeat(80));
+  lines.push('');
+
+  for (const change of result.changes) {
+    lines.push(`  ${verb(change.kind).padEnd(13)}${change.path}`);
+    for (const description of change.descriptions) {
+      lines.push(`  ${' '.repeat(13)}- ${description}`);
+    }
+  }
+  if (result.changes.length === 0) {
+    lines.push('  Nothing to fix.');
+  }
+  lines.push('');
+
+  if (result.skipped.length > 0) {
+    lines.push(`  SKIPPED (${result.skipped.length})`);
+    lines.push('-'.repeat(80));
+    for (const { issue, reason } of result.skipped) {
+      lines.push(`  ${issue.type} ${issue.id}: ${reason}`);
+    }
+    lines.push('');
+  }
+
+  if (result.notFound.length > 0) {
+    lines.push(`  NOT FOUND (${result.notFound.length})`);
+    lines.push('-'.repeat(80));
+    lines.push(...result.notFound.map(id => `  ${id}`));
+    lines.push('');
+  }
+
+  lines.push('='.repeat(80));
+  return lines.join('\n');
+}
+
+/**
+ * Formats the changes of a fix result as one unified diff
+ */
+export function formatFixDiff(result: FixResult): string {
+  return result.changes.map(change => change.diff).filter(Boolean).join('\n');
+}
 
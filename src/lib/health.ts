@@ -0,0 +1,60 @@
+import { CATEGORIES } from './rules/catalog';
+import type { HealthScore, Issue, IssueCategory, ScoringConfig } from './types';
+
+/**
+ * Whole-number health scores from 0 (worst) to 100 (no issues).
+ * Each issue costs its severity weight in points; a category's score halves every HALF_LIFE_POINTS,
+ * so a few findings matter while a long tail of warnings does not pin the score at zero.
+ * The overall score is the mean of category scores weighted by category weight.
+ * Free of Node.js imports so the web UI can score issues as they stream in.
+ */
+
+export const DEFAULT_SCORING: ScoringConfig = {
+  severityWeights: {
+    critical: 25,
+    error: 10,
+    warning: 3,
+    info: 1
+  },
+  categoryWeights: {
+    security: 3,
+    build: 3,
+    env: 2,
+    dependencies: 2,
+    licenses: 2,
+    git: 1,
+    filesystem: 1,
+    assets: 1,
+    orphans: 1,
+    seo: 1,
+    accessibility: 1,
+    'code-quality': 1,
+    performance: 1
+  }
+};
+
+const HALF_LIFE_POINTS = 30;
+
+export function computeHealthScore(issues: Issue[], scoring: ScoringConfig = DEFAULT_SCORING): HealthScore {
+  const penalties: Partial<Record<IssueCategory, number>> = {};
+  for (const issue of issues) {
+    const weight = scoring.severityWeights[issue.severity] ?? 0;
+    penalties[issue.category] = (penalties[issue.category] || 0) + weight;
+  }
+
+  const categories = {} as Record<IssueCategory, number>;
+  let weightedTotal = 0;
+  let totalWeight = 0;
+  for (const { id } of CATEGORIES) {
+    const score = 100 * Math.pow(0.5, (penalties[id] || 0) / HALF_LIFE_POINTS);
+    categories[id] = Math.round(score);
+    const weight = scoring.categoryWeights[id] ?? 1;
+    weightedTotal += score * weight;
+    totalWeight += weight;
+  }
+
+  return {
+    overall: totalWeight === 0 ? 100 : Math.round(weightedTotal / totalWeight),
+    categories
+  };
+}
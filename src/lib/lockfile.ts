@@ -0,0 +1,123 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Installed versions of the root package's direct dependencies, read from the project's lockfile.
+ * Only the entries needed for that are parsed, so no YAML parser is required for pnpm and yarn.
+ */
+
+export interface Lockfile {
+  // File name relative to the project root
+  file: string;
+  // Version installed for the dependency declared with this range; null when the lockfile has no entry
+  resolve(name: string, range: string): string | null;
+}
+
+const DEPENDENCY_SECTIONS = new Set(['dependencies', 'devDependencies', 'optionalDependencies']);
+
+// Plain versions only: workspace links, git and file references have nothing to pin to
+const EXACT_VERSION = /^\d+\.\d+\.\d+(?:[-+][\w.+-]*)?$/;
+
+const toExactVersion = (value: unknown) =>
+  typeof value === 'string' && EXACT_VERSION.test(value) ? value : null;
+
+const unquote = (text: string) => text.trim().replace(/^(['"])(.*)\1$/, '$2');
+
+interface NpmLock {
+  // lockfileVersion 2 and 3
+  packages?: Record<string, { version?: string }>;
+  // lockfileVersion 1
+  dependencies?: Record<string, { version?: string }>;
+}
+
+function parseNpmLock(content: string): Lockfile['resolve'] {
+  const lock = JSON.parse(content) as NpmLock;
+  return name => toExactVersion(lock.packages?.[`node_modules/${name}`]?.version ?? lock.dependencies?.[name]?.version);
+}
+
+/**
+ * Handles lockfileVersion 5 (`dependencies: { name: version }`), 6 (`dependencies: { name: { specifier, version } }`)
+ * and 9 (the same below `importers: { '.': ... }`)
+ */
+function parsePnpmLock(content: string): Lockfile['resolve'] {
+  const versions = new Map<string, string>();
+  // Keys of the enclosing mappings, by indentation
+  const ancestors: { indent: number; key: string }[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    const match = /^(\s*)([^\s#][^:]*?):(?:\s+(.*))?$/.exec(line);
+    if (!match) continue;
+    const indent = match[1].length;
+    const key = unquote(match[2]);
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1].indent >= indent) ancestors.pop();
+
+    const keys = ancestors.map(ancestor => ancestor.key);
+    // Dependency sections of the root project: top level (5, 6) or importers['.'] (9)
+    const sectionDepth = keys[0] === 'importers' ? (keys[1] === '.' ? 2 : -1) : 0;
+    const value = match[3] === undefined ? undefined : unquote(match[3]);
+    if (sectionDepth !== -1 && DEPENDENCY_SECTIONS.has(keys[sectionDepth]) && value !== undefined) {
+      if (keys.length === sectionDepth + 1) {
+        versions.set(key, value);
+      } else if (keys.length === sectionDepth + 2 && key === 'version') {
+        versions.set(keys[sectionDepth + 1], value);
+      }
+    }
+    ancestors.push({ indent, key });
+  }
+
+  // Peer suffixes: "18.2.0(react@18.2.0)" (6, 9) and "18.2.0_react@18.2.0" (5)
+  return name => toExactVersion(versions.get(name)?.replace(/[(_].*$/, ''));
+}
+
+/**
+ * Handles yarn 1 (`name@^1.0.0, name@^1.1.0:` / `version "1.2.3"`) and yarn 2+ (`"name@npm:^1.0.0":` / `version: 1.2.3`)
+ */
+function parseYarnLock(content: string): Lockfile['resolve'] {
+  const versions = new Map<string, string>();
+  let specifiers: string[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    if (/^\S.*:\s*$/.test(line) && !line.startsWith('#')) {
+      // yarn 1 quotes each specifier, yarn 2+ the whole list
+      specifiers = line.trim().slice(0, -1).split(',').map(specifier => specifier.trim().replace(/^"|"$/g, ''));
+      continue;
+    }
+    const version = /^\s+version:?\s+(.+)$/.exec(line);
+    if (version) {
+      for (const specifier of specifiers) versions.set(specifier, unquote(version[1]));
+      specifiers = [];
+    }
+  }
+
+  return (name, range) => toExactVersion(versions.get(`${name}@${range}`) ?? versions.get(`${name}@npm:${range}`));
+}
+
+// In npm's precedence order (a shrinkwrap overrides package-lock.json). The first file that exists is used;
+// if it does not parse there is no lockfile, rather than a fallback to one npm would ignore
+const LOCKFILE_PARSERS: [string, (content: string) => Lockfile['resolve']][] = [
+  ['npm-shrinkwrap.json', parseNpmLock],
+  ['package-lock.json', parseNpmLock],
+  ['pnpm-lock.yaml', parsePnpmLock],
+  ['yarn.lock', parseYarnLock]
+];
+
+/**
+ * Reads the project's lockfile; null when there is none or it cannot be parsed
+ */
+export async function loadLockfile(rootPath: string): Promise<Lockfile | null> {
+  for (const [file, parse] of LOCKFILE_PARSERS) {
+    let content: string;
+    try {
+      // Read directly: lockfiles regularly exceed the scan's maxReadBytes
+      content = await fs.promises.readFile(path.join(rootPath, file), 'utf-8');
+    } catch {
+      continue;
+    }
+    try {
+      return { file, resolve: parse(content) };
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
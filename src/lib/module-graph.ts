@@ -0,0 +1,788 @@
+import fs from 'fs';
+import path from 'path';
+import type { PackageJson } from './rules/types';
+
+/**
+ * Project module graph.
+ * Imports are read with a comment- and string-aware scanner rather than a full parser, resolved the way
+ * TypeScript's bundler resolution does (extensions, index files, tsconfig paths/baseUrl), and walked
+ * from the project's entry points.
+ */
+
+type ImportKind = 'import' | 'export' | 'require' | 'dynamic';
+
+export interface ImportRecord {
+  specifier: string;
+  kind: ImportKind;
+  // import type / export type, or a named clause where every binding is type-only
+  typeOnly: boolean;
+  // Export names taken from the target ('*' when the whole module is used); empty for export-from and side-effect imports
+  names: string[];
+  // Offset of the specifier's opening quote in the importing file
+  index: number;
+  // Project-relative file the specifier resolves to
+  resolved?: string;
+  // Bare package specifier that is not a path alias
+  external: boolean;
+  // Resolved only by ignoring case (see FileMatch)
+  caseMismatch?: boolean;
+}
+
+interface ExportRecord {
+  // Exported name; 'default' for default exports and '*' for `export * from`
+  name: string;
+  // Offset of the exported name (or the default keyword) in the file
+  index: number;
+  typeOnly: boolean;
+  // Re-exports only: specifier, resolved module and the name taken from it ('*' for `export * as name`)
+  specifier?: string;
+  source?: string;
+  imported?: string;
+}
+
+interface ModuleNode {
+  file: string;
+  imports: ImportRecord[];
+  exports: ExportRecord[];
+  importedBy: string[];
+}
+
+interface EntryPoint {
+  reason: string;
+  // Exports the framework reads by name; when absent every export counts as public API
+  frameworkExports?: string[];
+}
+
+export interface ModuleGraph {
+  modules: Map<string, ModuleNode>;
+  entryPoints: Map<string, EntryPoint>;
+  reachable: Set<string>;
+  // Resolver and file lookup the graph was built with, for checking other references against the same files
+  resolve: (fromFile: string, specifier: string) => Resolution;
+  lookupFile: (candidates: string[]) => FileMatch | undefined;
+}
+
+const CODE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+
+// Extensions TypeScript lets ESM sources write for their compiled output
+const TS_EXTENSION_ALIASES: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts']
+};
+
+// File conventions the Next.js app router loads by name
+const NEXT_APP_FILES = new Set([
+  'page', 'layout', 'template', 'loading', 'error', 'global-error', 'not-found', 'default', 'route',
+  'opengraph-image', 'twitter-image', 'icon', 'apple-icon', 'sitemap', 'robots', 'manifest'
+]);
+
+// Loaded by Next.js from the project root or src/
+const NEXT_ROOT_FILES = new Set(['middleware', 'proxy', 'instrumentation', 'instrumentation-client']);
+
+// Route segment config and conventions Next.js reads from app router files
+const NEXT_APP_EXPORTS = [
+  'default', 'metadata', 'generateMetadata', 'viewport', 'generateViewport', 'generateStaticParams',
+  'generateImageMetadata', 'generateSitemaps', 'revalidate', 'dynamic', 'dynamicParams', 'fetchCache',
+  'runtime', 'preferredRegion', 'maxDuration', 'experimental_ppr', 'alt', 'size', 'contentType',
+  'GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'
+];
+const NEXT_PAGES_EXPORTS = [
+  'default', 'getStaticProps', 'getStaticPaths', 'getServerSideProps', 'getInitialProps', 'config', 'reportWebVitals'
+];
+const NEXT_ROOT_EXPORTS = ['default', 'middleware', 'proxy', 'config', 'register', 'onRequestError', 'onRouterTransitionStart'];
+
+const TEST_FILE_PATTERN = /(?:\.(?:test|spec)\.[cm]?[jt]sx?$)|(?:^|\/)__tests__\//;
+const ROOT_CONFIG_PATTERN = /^(?:[\w.-]+\.config|\.[\w.-]+rc)\.[cm]?[jt]s$/;
+
+const toPosix = (file: string) => file.replace(/\\/g, '/');
+
+export const isCodeFile = (file: string) => CODE_EXTENSIONS.includes(path.extname(file));
+
+export const isDeclarationFile = (file: string) => /\.d\.[cm]?ts$/.test(file);
+
+const REGEX_PRECEDING_CHARS = new Set('(,=:[!&|?{};+-*%<>~^');
+const REGEX_PRECEDING_WORDS = /(?:^|[^\w$])(?:return|typeof|case|do|else|in|of|void|yield|await|delete|throw|new)$/;
+
+/**
+ * Blanks comments (and, unless keepStrings is set, string and regex literal contents) with spaces.
+ * Offsets and line breaks are preserved, so positions found in the result apply to the original.
+ */
+export function maskCode(content: string, keepStrings = false): string {
+  const out = content.split('');
+  const blank = (from: number, to: number) => {
+    for (let k = from; k < to; k++) {
+      if (out[k] !== '\n') out[k] = ' ';
+    }
+  };
+
+  let lastSignificant = '';
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+    const next = content[i + 1];
+
+    if (ch === '/' && next === '/') {
+      const end = content.indexOf('\n', i);
+      const stop = end === -1 ? content.length : end;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+    if (ch === '/' && next === '*') {
+      const end = content.indexOf('*/', i + 2);
+      const stop = end === -1 ? content.length : end + 2;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+    if (ch === '\'' || ch === '"' || ch === '`') {
+      let j = i + 1;
+      while (j < content.length && content[j] !== ch) {
+        if (content[j] === '\\') j++;
+        // An unterminated quote (e.g. an apostrophe in JSX text) ends at the line break
+        else if (ch !== '`' && content[j] === '\n') break;
+        j++;
+      }
+      if (!keepStrings) blank(i + 1, Math.min(j, content.length));
+      lastSignificant = ch;
+      i = j + 1;
+      continue;
+    }
+    if (
+      ch === '/' &&
+      (lastSignificant === '' || REGEX_PRECEDING_CHARS.has(lastSignificant) ||
+        REGEX_PRECEDING_WORDS.test(content.slice(Math.max(0, i - 12), i).trimEnd()))
+    ) {
+      let j = i + 1;
+      let inClass = false;
+      while (j < content.length && content[j] !== '\n') {
+        if (content[j] === '\\') j++;
+        else if (content[j] === '[') inClass = true;
+        else if (content[j] === ']') inClass = false;
+        else if (content[j] === '/' && !inClass) break;
+        j++;
+      }
+      if (!keepStrings) blank(i + 1, Math.min(j, content.length));
+      lastSignificant = '/';
+      i = j + 1;
+      continue;
+    }
+
+    if (!/\s/.test(ch)) lastSignificant = ch;
+    i++;
+  }
+
+  return out.join('');
+}
+
+// Matched against masked code; each pattern ends at the specifier's opening quote
+const STATIC_IMPORT_REGEX = /(?<![.\w$])(import|export)\s+(type\s+)?([\w$*{}\s,]*?)\s*\bfrom\s*(['"])/g;
+const SIDE_EFFECT_IMPORT_REGEX = /(?<![.\w$])import\s*(['"])/g;
+const CALL_IMPORT_REGEX = /(?<![.\w$])(import|require)\s*\(\s*(['"])/g;
+
+const isTypeOnlyClause = (clause: string) => {
+  const braces = /^\{([^}]*)\}$/.exec(clause.trim());
+  if (!braces) return false;
+  const bindings = braces[1].split(',').map(binding => binding.trim()).filter(Boolean);
+  return bindings.length > 0 && bindings.every(binding => binding.startsWith('type '));
+};
+
+const escapeRegex = (text: string) => text.replace(/[$]/g, '\\$&');
+
+/**
+ * Members accessed on a namespace import (`ns.member`), or '*' when the namespace object itself is used
+ */
+function getNamespaceMembers(namespace: string, masked: string): string[] {
+  const members = new Set<string>();
+  let bareUses = 0;
+  for (const match of masked.matchAll(new RegExp(`(?<![.\\w$])${escapeRegex(namespace)}(?![\\w$])(\\s*\\.\\s*([\\w$]+))?`, 'g'))) {
+    if (match[2]) members.add(match[2]);
+    else bareUses++;
+  }
+  // The import clause itself is one bare use
+  return bareUses > 1 ? ['*'] : [...members];
+}
+
+/**
+ * Export names an import clause takes from its target
+ */
+function getImportedNames(clause: string, masked: string): string[] {
+  const names: string[] = [];
+  const braces = /\{([^}]*)\}/.exec(clause);
+  for (const binding of braces ? braces[1].split(',') : []) {
+    const name = binding.trim().replace(/^type\s+/, '').split(/\s+as\s+/)[0].trim();
+    if (name) names.push(name);
+  }
+
+  const outside = clause.replace(/\{[^}]*\}/, '').trim();
+  const namespace = /\*\s*as\s+([\w$]+)/.exec(outside);
+  if (namespace) names.push(...getNamespaceMembers(namespace[1], masked));
+  if (/^[\w$]+/.test(outside)) names.push('default');
+  return names;
+}
+
+/**
+ * Finds import, export-from, require() and dynamic import() statements with literal specifiers
+ */
+export function parseImports(content: string): Omit<ImportRecord, 'resolved' | 'external'>[] {
+  const masked = maskCode(content);
+  const imports: Omit<ImportRecord, 'resolved' | 'external'>[] = [];
+
+  const readSpecifier = (quoteIndex: number) => {
+    const quote = content[quoteIndex];
+    const end = content.indexOf(quote, quoteIndex + 1);
+    return end === -1 ? '' : content.slice(quoteIndex + 1, end);
+  };
+  const add = (quoteIndex: number, kind: ImportKind, typeOnly: boolean, names: string[]) => {
+    const specifier = readSpecifier(quoteIndex);
+    if (specifier) imports.push({ specifier, kind, typeOnly, names, index: quoteIndex });
+  };
+
+  for (const match of masked.matchAll(STATIC_IMPORT_REGEX)) {
+    const typeOnly = Boolean(match[2]) || isTypeOnlyClause(match[3]);
+    // Re-exported names only count as used when something imports them from this module
+    const names = match[1] === 'import' ? getImportedNames(match[3], masked) : [];
+    add(match.index + match[0].length - 1, match[1] as ImportKind, typeOnly, names);
+  }
+  for (const match of masked.matchAll(SIDE_EFFECT_IMPORT_REGEX)) {
+    add(match.index + match[0].length - 1, 'import', false, []);
+  }
+  for (const match of masked.matchAll(CALL_IMPORT_REGEX)) {
+    add(match.index + match[0].length - 1, match[1] === 'require' ? 'require' : 'dynamic', false, ['*']);
+  }
+
+  return imports.sort((a, b) => a.index - b.index);
+}
+
+const EXPORT_DECLARATION_REGEX = /(?<![.\w$])export\s+(?:declare\s+)?(?:(default)\b|(?:async\s+)?(function\s*\*?|abstract\s+class|class|const\s+enum|const|let|var|type|interface|enum|namespace)\s+([\w$]+))/g;
+const EXPORT_DESTRUCTURING_REGEX = /(?<![.\w$])export\s+(?:const|let|var)\s+([{[])([^}\]]*)[}\]]/g;
+const EXPORT_CLAUSE_REGEX = /(?<![.\w$])export\s+(type\s+)?\{([^}]*)\}(\s*from\s*(['"]))?/g;
+const EXPORT_STAR_REGEX = /(?<![.\w$])export\s+(type\s+)?\*\s*(?:as\s+([\w$]+)\s*)?from\s*(['"])/g;
+
+/**
+ * Finds ES module exports: declarations, export clauses, default exports and re-exports
+ */
+export function parseExports(content: string): ExportRecord[] {
+  const masked = maskCode(content);
+  const exports: ExportRecord[] = [];
+
+  const readSpecifier = (quoteIndex: number) => {
+    const end = content.indexOf(content[quoteIndex], quoteIndex + 1);
+    return end === -1 ? '' : content.slice(quoteIndex + 1, end);
+  };
+
+  for (const match of masked.matchAll(EXPORT_DECLARATION_REGEX)) {
+    if (match[1]) {
+      exports.push({ name: 'default', index: match.index + match[0].length - match[1].length, typeOnly: false });
+    } else {
+      exports.push({
+        name: match[3],
+        index: match.index + match[0].length - match[3].length,
+        typeOnly: match[2] === 'type' || match[2] === 'interface'
+      });
+    }
+  }
+
+  for (const match of masked.matchAll(EXPORT_DESTRUCTURING_REGEX)) {
+    let offset = match.index + match[0].indexOf(match[1]) + 1;
+    for (const part of match[2].split(',')) {
+      // `{ a, b: renamed, c = 1, ...rest }` binds a, renamed, c and rest
+      const binding = (part.includes(':') ? part.split(':')[1] : part).split('=')[0].replace('...', '').trim();
+      if (/^[\w$]+$/.test(binding)) {
+        exports.push({ name: binding, index: offset + part.lastIndexOf(binding), typeOnly: false });
+      }
+      offset += part.length + 1;
+    }
+  }
+
+  for (const match of masked.matchAll(EXPORT_CLAUSE_REGEX)) {
+    const specifier = match[4] ? readSpecifier(match.index + match[0].length - 1) : undefined;
+    let offset = match.index + match[0].indexOf('{') + 1;
+    for (const part of match[2].split(',')) {
+      const binding = part.trim();
+      if (binding) {
+        const typeOnly = Boolean(match[1]) || binding.startsWith('type ');
+        const [local, exported = local] = binding.replace(/^type\s+/, '').split(/\s+as\s+/).map(name => name.trim());
+        exports.push({
+          name: exported,
+          index: offset + part.lastIndexOf(exported),
+          typeOnly,
+          ...(specifier && { specifier, imported: local })
+        });
+      }
+      offset += part.length + 1;
+    }
+  }
+
+  for (const match of masked.matchAll(EXPORT_STAR_REGEX)) {
+    const specifier = readSpecifier(match.index + match[0].length - 1);
+    if (!specifier) continue;
+    const name = match[2] || '*';
+    exports.push({
+      name,
+      index: match[2] ? match.index + match[0].indexOf(match[2], match[0].indexOf('as')) : match.index,
+      typeOnly: Boolean(match[1]),
+      specifier,
+      imported: '*'
+    });
+  }
+
+  return exports.sort((a, b) => a.index - b.index);
+}
+
+interface PathAlias {
+  prefix: string;
+  suffix: string;
+  wildcard: boolean;
+  // Project-relative target patterns
+  targets: string[];
+}
+
+interface PathAliases {
+  // Project-relative, '' for the root
+  baseUrl: string | null;
+  aliases: PathAlias[];
+}
+
+const parseJsonc = (content: string): unknown =>
+  JSON.parse(maskCode(content, true).replace(/,(\s*[}\]])/g, '$1'));
+
+interface TsconfigCompilerOptions {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+}
+
+async function readCompilerOptions(configPath: string, depth = 0): Promise<TsconfigCompilerOptions & { dir: string }> {
+  const dir = path.dirname(configPath);
+  const raw = parseJsonc(await fs.promises.readFile(configPath, 'utf-8')) as {
+    extends?: string;
+    compilerOptions?: TsconfigCompilerOptions;
+  };
+
+  // Only relative extends are followed; options declared in a package preset are not project paths
+  let inherited: TsconfigCompilerOptions & { dir: string } = { dir };
+  if (typeof raw.extends === 'string' && raw.extends.startsWith('.') && depth < 5) {
+    const parentPath = path.resolve(dir, raw.extends.endsWith('.json') ? raw.extends : `${raw.extends}.json`);
+    inherited = await readCompilerOptions(parentPath, depth + 1).catch(() => ({ dir }));
+  }
+
+  const own = raw.compilerOptions || {};
+  return {
+    baseUrl: own.baseUrl ?? inherited.baseUrl,
+    paths: own.paths ?? inherited.paths,
+    // paths resolve against the config that declares them
+    dir: own.baseUrl !== undefined || own.paths !== undefined ? dir : inherited.dir
+  };
+}
+
+/**
+ * Reads baseUrl and paths from tsconfig.json (or jsconfig.json) in the project root
+ */
+async function loadPathAliases(rootPath: string): Promise<PathAliases> {
+  for (const name of ['tsconfig.json', 'jsconfig.json']) {
+    let options: TsconfigCompilerOptions & { dir: string };
+    try {
+      options = await readCompilerOptions(path.join(rootPath, name));
+    } catch {
+      continue;
+    }
+
+    const baseDir = path.resolve(options.dir, options.baseUrl || '.');
+    const toProjectPath = (target: string) => toPosix(path.relative(rootPath, path.resolve(baseDir, target)));
+
+    const aliases = Object.entries(options.paths || {})
+      .map(([pattern, targets]) => {
+        const star = pattern.indexOf('*');
+        return {
+          prefix: star === -1 ? pattern : pattern.slice(0, star),
+          suffix: star === -1 ? '' : pattern.slice(star + 1),
+          wildcard: star !== -1,
+          targets: (Array.isArray(targets) ? targets : []).map(toProjectPath)
+        };
+      })
+      // Longest prefix wins, as in TypeScript
+      .sort((a, b) => b.prefix.length - a.prefix.length);
+
+    return {
+      baseUrl: options.baseUrl !== undefined ? toProjectPath('.') : null,
+      aliases
+    };
+  }
+  return { baseUrl: null, aliases: [] };
+}
+
+export interface FileMatch {
+  file: string;
+  // Found only by ignoring case: works on macOS/Windows, fails on case-sensitive file systems
+  caseMismatch: boolean;
+}
+
+/**
+ * Creates a lookup that finds the first existing candidate path, falling back to a case-insensitive match
+ */
+function createFileLookup(files: Set<string>) {
+  let lowerCaseFiles: Map<string, string> | null = null;
+  return (candidates: string[]): FileMatch | undefined => {
+    const exact = candidates.find(candidate => files.has(candidate));
+    if (exact) return { file: exact, caseMismatch: false };
+
+    lowerCaseFiles ??= new Map([...files].map(file => [file.toLowerCase(), file]));
+    for (const candidate of candidates) {
+      const actual = lowerCaseFiles.get(candidate.toLowerCase());
+      if (actual) return { file: actual, caseMismatch: true };
+    }
+    return undefined;
+  };
+}
+
+/**
+ * Paths a module specifier may refer to: as written, with TypeScript source extensions, and as a directory index
+ */
+export function getModuleCandidates(base: string): string[] {
+  const normalized = path.posix.normalize(base).replace(/^\.\//, '');
+  const candidates = [normalized];
+  const ext = path.posix.extname(normalized);
+  for (const alias of TS_EXTENSION_ALIASES[ext] || []) {
+    candidates.push(normalized.slice(0, -ext.length) + alias);
+  }
+  for (const extension of CODE_EXTENSIONS) {
+    candidates.push(`${normalized}${extension}`);
+  }
+  for (const extension of CODE_EXTENSIONS) {
+    candidates.push(`${normalized}/index${extension}`);
+  }
+  return candidates;
+}
+
+interface Resolution {
+  resolved?: string;
+  external: boolean;
+  caseMismatch?: boolean;
+  // Project-relative path the specifier points at (for relative paths and aliases), whether or not it exists
+  target?: string;
+}
+
+/**
+ * Creates a resolver from (importing file, specifier) to a project-relative file
+ */
+function createResolver(files: Set<string>, pathAliases: PathAliases) {
+  const lookup = createFileLookup(files);
+
+  const tryFile = (base: string): Resolution => {
+    const target = path.posix.normalize(base).replace(/^\.\//, '');
+    // Outside the scanned root (e.g. a sibling workspace package); cannot be checked
+    if (target.startsWith('../')) return { external: false };
+    const match = lookup(getModuleCandidates(target));
+    return {
+      external: false,
+      target,
+      ...(match && { resolved: match.file }),
+      ...(match?.caseMismatch && { caseMismatch: true })
+    };
+  };
+
+  return (fromFile: string, specifier: string): Resolution => {
+    const cleanSpecifier = specifier.replace(/[?#].*$/, '');
+
+    if (cleanSpecifier.startsWith('.')) {
+      return tryFile(path.posix.join(path.posix.dirname(fromFile), cleanSpecifier));
+    }
+    if (cleanSpecifier.startsWith('/')) {
+      return { external: false };
+    }
+
+    for (const alias of pathAliases.aliases) {
+      const matches = alias.wildcard
+        ? cleanSpecifier.startsWith(alias.prefix) && cleanSpecifier.endsWith(alias.suffix) &&
+          cleanSpecifier.length >= alias.prefix.length + alias.suffix.length
+        : cleanSpecifier === alias.prefix;
+      if (!matches) continue;
+
+      const captured = alias.wildcard
+        ? cleanSpecifier.slice(alias.prefix.length, cleanSpecifier.length - alias.suffix.length)
+        : '';
+      let firstAttempt: Resolution | null = null;
+      for (const target of alias.targets) {
+        const attempt = tryFile(target.replace('*', captured));
+        if (attempt.resolved) return attempt;
+        firstAttempt ??= attempt;
+      }
+      // A catch-all mapping ("*") falls back to node_modules, like TypeScript does
+      if (alias.prefix === '') break;
+      return firstAttempt || { external: false };
+    }
+
+    if (pathAliases.baseUrl !== null) {
+      const attempt = tryFile(path.posix.join(pathAliases.baseUrl, cleanSpecifier));
+      if (attempt.resolved) return attempt;
+    }
+
+    return { external: true };
+  };
+}
+
+/**
+ * Collects string values of package.json main/module/bin/exports fields
+ */
+const collectPackageTargets = (value: unknown, out: string[] = []): string[] => {
+  if (typeof value === 'string') out.push(value);
+  else if (Array.isArray(value)) value.forEach(item => collectPackageTargets(item, out));
+  else if (value && typeof value === 'object') Object.values(value).forEach(item => collectPackageTargets(item, out));
+  return out;
+};
+
+interface EntryPointOptions {
+  files: string[];
+  packageJson: PackageJson | null;
+  // Extra entry globs from the project config
+  entryPoints: string[];
+  matchFiles(patterns: string[]): Promise<string[]>;
+  resolve: ReturnType<typeof createResolver>;
+}
+
+async function findEntryPoints({ files, packageJson, entryPoints, matchFiles, resolve }: EntryPointOptions) {
+  const entries = new Map<string, EntryPoint>();
+  const add = (file: string | undefined, reason: string, frameworkExports?: string[]) => {
+    if (file && !entries.has(file)) entries.set(file, { reason, ...(frameworkExports && { frameworkExports }) });
+  };
+
+  for (const file of files) {
+    if (!isCodeFile(file)) continue;
+    const segments = file.split('/');
+    const name = path.posix.basename(file, path.posix.extname(file));
+    const dir = segments.slice(0, -1).join('/');
+
+    if (segments.slice(0, -1).includes('app') && NEXT_APP_FILES.has(name)) {
+      add(file, 'Next.js app router file', NEXT_APP_EXPORTS);
+    } else if (segments.slice(0, -1).includes('pages')) {
+      add(file, 'Next.js pages route', NEXT_PAGES_EXPORTS);
+    } else if ((dir === '' || dir === 'src') && NEXT_ROOT_FILES.has(name)) {
+      add(file, `Next.js ${name} file`, NEXT_ROOT_EXPORTS);
+    } else if (TEST_FILE_PATTERN.test(file)) {
+      add(file, 'test file');
+    } else if (dir === '' && ROOT_CONFIG_PATTERN.test(file)) {
+      add(file, 'config file');
+    }
+  }
+
+  if (packageJson) {
+    for (const field of ['main', 'module', 'browser', 'bin', 'exports']) {
+      for (const target of collectPackageTargets(packageJson[field])) {
+        add(resolve('package.json', `./${target.replace(/^\.\//, '')}`).resolved, `package.json "${field}"`);
+      }
+    }
+    // Files run directly by npm scripts (e.g. "tsx scripts/seed.ts")
+    const scripts = (packageJson.scripts || {}) as Record<string, unknown>;
+    for (const [name, command] of Object.entries(scripts)) {
+      if (typeof command !== 'string') continue;
+      for (const token of command.split(/[\s=;&|]+/)) {
+        if (isCodeFile(token.replace(/['"]/g, ''))) {
+          add(resolve('package.json', `./${token.replace(/['"]/g, '').replace(/^\.\//, '')}`).resolved, `npm script "${name}"`);
+        }
+      }
+    }
+  }
+
+  if (entryPoints.length > 0) {
+    const matched = await matchFiles(entryPoints);
+    for (const file of matched) {
+      add(toPosix(file), 'configured entry point');
+    }
+  }
+
+  return entries;
+}
+
+interface BuildModuleGraphOptions {
+  rootPath: string;
+  // Every project file (used for resolution); code files among them become graph nodes
+  files: string[];
+  // Shared file layer reads, so files already read by rules are not read again
+  readFile(file: string): Promise<string | null>;
+  matchFiles(patterns: string[]): Promise<string[]>;
+  packageJson: PackageJson | null;
+  entryPoints: string[];
+}
+
+export async function buildModuleGraph(options: BuildModuleGraphOptions): Promise<ModuleGraph> {
+  const files = options.files.map(toPosix);
+  const fileSet = new Set(files);
+  const resolve = createResolver(fileSet, await loadPathAliases(options.rootPath));
+  const lookupFile = createFileLookup(fileSet);
+
+  const codeFiles = files.filter(file => isCodeFile(file) && !isDeclarationFile(file));
+
+  const modules = new Map<string, ModuleNode>();
+  for (const file of codeFiles) {
+    const content = (await options.readFile(file)) ?? '';
+    const imports = parseImports(content).map(record => {
+      const { resolved, external, caseMismatch } = resolve(file, record.specifier);
+      return { ...record, external, ...(resolved && { resolved }), ...(caseMismatch && { caseMismatch }) };
+    });
+    const exports = parseExports(content).map(record =>
+      record.specifier ? { ...record, source: resolve(file, record.specifier).resolved } : record
+    );
+    modules.set(file, { file, imports, exports, importedBy: [] });
+  }
+
+  for (const node of modules.values()) {
+    for (const record of node.imports) {
+      const target = record.resolved && modules.get(record.resolved);
+      if (target && !target.importedBy.includes(node.file)) {
+        target.importedBy.push(node.file);
+      }
+    }
+  }
+
+  const entryPoints = await findEntryPoints({
+    files: codeFiles,
+    packageJson: options.packageJson,
+    entryPoints: options.entryPoints,
+    matchFiles: options.matchFiles,
+    resolve
+  });
+
+  const reachable = new Set<string>();
+  const queue = [...entryPoints.keys()];
+  while (queue.length > 0) {
+    const file = queue.pop() as string;
+    if (reachable.has(file)) continue;
+    reachable.add(file);
+    for (const record of modules.get(file)?.imports || []) {
+      if (record.resolved && !reachable.has(record.resolved)) queue.push(record.resolved);
+    }
+  }
+
+  return { modules, entryPoints, reachable, resolve, lookupFile };
+}
+
+/**
+ * Export names used per module, starting from the given (file, name) seeds plus every import in the graph.
+ * Usage follows re-exports, so a name imported from a barrel marks the module that declares it.
+ * A '*' entry means every export of that module is used.
+ */
+export function collectUsedExports(graph: ModuleGraph, seeds: Array<[string, string]>): Map<string, Set<string>> {
+  const used = new Map<string, Set<string>>();
+  const queue: Array<[string, string]> = [...seeds];
+  for (const node of graph.modules.values()) {
+    for (const record of node.imports) {
+      if (!record.resolved) continue;
+      for (const name of record.names) queue.push([record.resolved, name]);
+    }
+  }
+
+  while (queue.length > 0) {
+    const [file, name] = queue.pop() as [string, string];
+    const node = graph.modules.get(file);
+    if (!node) continue;
+    const names = used.get(file) || new Set<string>();
+    used.set(file, names);
+    if (names.has(name)) continue;
+    names.add(name);
+
+    if (name === '*') {
+      for (const record of node.exports) {
+        if (record.source) queue.push([record.source, record.imported || '*']);
+      }
+      continue;
+    }
+
+    const own = node.exports.filter(record => record.name === name);
+    for (const record of own) {
+      if (record.source) queue.push([record.source, record.imported || name]);
+    }
+    // `export * from` forwards every name except default
+    if (own.length === 0 && name !== 'default') {
+      for (const record of node.exports) {
+        if (record.name === '*' && record.source) queue.push([record.source, name]);
+      }
+    }
+  }
+
+  return used;
+}
+
+/**
+ * Strongly connected components with more than one file, or a single file that imports itself
+ * (Tarjan's algorithm, iterative so deep import chains cannot overflow the stack)
+ */
+export function findStronglyConnectedComponents(files: string[], getEdges: (file: string) => string[]): string[][] {
+  const indexOf = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  for (const root of files) {
+    if (indexOf.has(root)) continue;
+    const work: Array<{ file: string; edges: string[]; position: number }> = [];
+    const visit = (file: string) => {
+      indexOf.set(file, nextIndex);
+      lowLink.set(file, nextIndex);
+      nextIndex++;
+      stack.push(file);
+      onStack.add(file);
+      work.push({ file, edges: getEdges(file), position: 0 });
+    };
+    visit(root);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      if (frame.position < frame.edges.length) {
+        const target = frame.edges[frame.position++];
+        if (!indexOf.has(target)) {
+          visit(target);
+        } else if (onStack.has(target)) {
+          lowLink.set(frame.file, Math.min(lowLink.get(frame.file) as number, indexOf.get(target) as number));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].file;
+        lowLink.set(parent, Math.min(lowLink.get(parent) as number, lowLink.get(frame.file) as number));
+      }
+      if (lowLink.get(frame.file) === indexOf.get(frame.file)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop() as string;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.file);
+        if (component.length > 1 || frame.edges.includes(frame.file)) {
+          components.push(component.sort());
+        }
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Shortest import chain from start back to itself using the given edges, e.g. [a, b, c, a]
+ */
+export function findShortestCycle(start: string, getEdges: (file: string) => string[]): string[] {
+  const previous = new Map<string, string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const file = queue.shift() as string;
+    for (const target of getEdges(file)) {
+      if (target === start) {
+        const chain = [file];
+        while (chain[0] !== start) chain.unshift(previous.get(chain[0]) as string);
+        return [...chain, start];
+      }
+      if (!previous.has(target)) {
+        previous.set(target, file);
+        queue.push(target);
+      }
+    }
+  }
+  return [start];
+}
@@ -0,0 +1,115 @@
+/**
+ * In-place package.json edits that keep the file's formatting and key order:
+ * only the characters of the touched entry change, so diffs stay minimal.
+ */
+
+export type DependencySection = 'dependencies' | 'devDependencies';
+
+interface MemberSpan {
+  key: string;
+  // Start of the key's opening quote
+  start: number;
+  valueStart: number;
+  // Just past the value
+  end: number;
+}
+
+const skipWhitespace = (content: string, index: number) => {
+  while (index < content.length && /\s/.test(content[index])) index++;
+  return index;
+};
+
+// Just past the string literal whose opening quote is at index
+function skipString(content: string, index: number): number {
+  for (let i = index + 1; i < content.length; i++) {
+    if (content[i] === '\\') i++;
+    else if (content[i] === '"') return i + 1;
+  }
+  return content.length;
+}
+
+// Just past the JSON value starting at index
+function skipValue(content: string, index: number): number {
+  if (content[index] === '"') return skipString(content, index);
+  if (content[index] === '{' || content[index] === '[') {
+    let depth = 0;
+    for (let i = index; i < content.length; i++) {
+      const char = content[i];
+      if (char === '"') {
+        i = skipString(content, i) - 1;
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if ((char === '}' || char === ']') && --depth === 0) {
+        return i + 1;
+      }
+    }
+    return content.length;
+  }
+  // Numbers, true, false and null
+  return index + (/^[^\s,}\]]*/.exec(content.slice(index))?.[0].length ?? 0);
+}
+
+// Members of the object whose opening brace is at objectStart; content must be valid JSON
+function readMembers(content: string, objectStart: number): MemberSpan[] {
+  const members: MemberSpan[] = [];
+  let index = skipWhitespace(content, objectStart + 1);
+  while (index < content.length && content[index] !== '}') {
+    const keyEnd = skipString(content, index);
+    const valueStart = skipWhitespace(content, skipWhitespace(content, keyEnd) + 1);
+    const end = skipValue(content, valueStart);
+    members.push({ key: JSON.parse(content.slice(index, keyEnd)) as string, start: index, valueStart, end });
+    index = skipWhitespace(content, end);
+    if (content[index] === ',') index = skipWhitespace(content, index + 1);
+  }
+  return members;
+}
+
+function findDependency(content: string, section: DependencySection, name: string) {
+  try {
+    JSON.parse(content);
+  } catch {
+    throw new Error('VALIDATION_ERROR: package.json is not valid JSON');
+  }
+
+  const root = skipWhitespace(content, 0);
+  const sectionMember = content[root] === '{' ? readMembers(content, root).find(member => member.key === section) : undefined;
+  if (!sectionMember || content[sectionMember.valueStart] !== '{') {
+    throw new Error(`VALIDATION_ERROR: package.json has no ${section}`);
+  }
+
+  const entries = readMembers(content, sectionMember.valueStart);
+  const position = entries.findIndex(entry => entry.key === name);
+  if (position === -1) {
+    throw new Error(`VALIDATION_ERROR: "${name}" is not in package.json ${section}`);
+  }
+  return { sectionMember, entries, position };
+}
+
+/**
+ * Removes one dependency entry together with its separating comma
+ */
+export function removeDependency(content: string, section: DependencySection, name: string): string {
+  const { sectionMember, entries, position } = findDependency(content, section, name);
+  const entry = entries[position];
+  const next = entries[position + 1];
+  const previous = entries[position - 1];
+
+  if (next) {
+    return content.slice(0, entry.start) + content.slice(next.start);
+  }
+  if (previous) {
+    return content.slice(0, previous.end) + content.slice(entry.end);
+  }
+  // Last entry: leave an empty object behind
+  const closingBrace = sectionMember.end - 1;
+  return content.slice(0, sectionMember.valueStart + 1) + content.slice(closingBrace);
+}
+
+/**
+ * Replaces the version range of one dependency
+ */
+export function setDependencyVersion(content: string, section: DependencySection, name: string, version: string): string {
+  const { entries, position } = findDependency(content, section, name);
+  const entry = entries[position];
+  return content.slice(0, entry.valueStart) + JSON.stringify(version) + content.slice(entry.end);
+}
@@ -0,0 +1,47 @@
+import type { IssueCountsByCategory, ScanPhase, ScanProgressEvent } from './types';
+
+/**
+ * Folds scan progress events into a snapshot for progress displays.
+ * Free of Node.js imports so client components can use it as well as the CLI.
+ */
+
+export interface ScanProgressState {
+  // Phase running or, between phases, the one that just finished; null before the first
+  phase: ScanPhase | null;
+  completedPhases: number;
+  totalPhases: number;
+  filesProcessed: number;
+  filesTotal: number;
+  issuesFound: number;
+  issuesByCategory: IssueCountsByCategory;
+  elapsedMs: number;
+  finished: boolean;
+}
+
+export const createProgressState = (): ScanProgressState => ({
+  phase: null,
+  completedPhases: 0,
+  totalPhases: 0,
+  filesProcessed: 0,
+  filesTotal: 0,
+  issuesFound: 0,
+  issuesByCategory: {},
+  elapsedMs: 0,
+  finished: false
+});
+
+export function applyProgressEvent(state: ScanProgressState, event: ScanProgressEvent): ScanProgressState {
+  const next = { ...state, elapsedMs: event.elapsedMs };
+  switch (event.type) {
+    case 'phase-started':
+      return { ...next, phase: event.phase, totalPhases: event.phase.total };
+    case 'phase-finished':
+      return { ...next, completedPhases: event.phase.index };
+    case 'files-processed':
+      return { ...next, filesProcessed: event.processed, filesTotal: event.total };
+    case 'issues-found':
+      return { ...next, issuesFound: event.total, issuesByCategory: event.byCategory };
+    case 'scan-finished':
+      return { ...next, issuesFound: event.total, issuesByCategory: event.byCategory, finished: true };
+  }
+}
@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { IssueSeverity, ScanReport, StoredReportSummary } from './types';
+
+/**
+ * Report history on disk, shared by the web server and the CLI.
+ * Each report is saved as <id>.json next to a small <id>.summary.json used for listings,
+ * so saving never rewrites a shared index and concurrent writers cannot lose each other's reports.
+ */
+
+interface ReportListOptions {
+  // Only reports of this project root
+  rootPath?: string;
+  limit?: number;
+}
+
+interface ReportStore {
+  // Returns the summary; the report's id is set to the stored id
+  save(report: ScanReport): Promise<StoredReportSummary>;
+  // Newest first
+  list(options?: ReportListOptions): Promise<StoredReportSummary[]>;
+  get(id: string): Promise<ScanReport | null>;
+  // False when no report has that id
+  delete(id: string): Promise<boolean>;
+}
+
+const REPORTS_DIR_NAME = 'reports';
+const SUMMARY_SUFFIX = '.summary.json';
+
+// Ids are generated here; anything else (e.g. path separators from a URL) is treated as unknown
+const REPORT_ID = /^[\w-]+$/;
+
+/**
+ * SANITY_GATE_DATA_DIR, or .sanity-gate in the home directory
+ */
+const getDefaultDataDir = () =>
+  process.env.SANITY_GATE_DATA_DIR
+    ? path.resolve(process.env.SANITY_GATE_DATA_DIR)
+    : path.join(os.homedir(), '.sanity-gate');
+
+// Sorts by time: 20261018T142501123Z-3f9a1c
+const createReportId = (timestamp: string) => {
+  const time = Number.isNaN(Date.parse(timestamp)) ? new Date() : new Date(timestamp);
+  return `${time.toISOString().replace(/[-:.]/g, '')}-${crypto.randomBytes(3).toString('hex')}`;
+};
+
+const summarize = (id: string, report: ScanReport): StoredReportSummary => {
+  const issuesBySeverity: Partial<Record<IssueSeverity, number>> = {};
+  for (const issue of report.issues) {
+    issuesBySeverity[issue.severity] = (issuesBySeverity[issue.severity] || 0) + 1;
+  }
+  return {
+    id,
+    project: report.project,
+    rootPath: report.rootPath || '',
+    timestamp: report.timestamp,
+    issueCount: report.issues.length,
+    issuesBySeverity,
+    filesScanned: report.stats.filesScanned,
+    ...(report.stats.health && { healthScore: report.stats.health.overall })
+  };
+};
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.promises.readFile(filePath, 'utf-8')) as T;
+  } catch {
+    // Missing, or a half-written file from a crashed save
+    return null;
+  }
+}
+
+async function writeJsonAtomic(filePath: string, data: unknown) {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tempPath, JSON.stringify(data), 'utf-8');
+  await fs.promises.rename(tempPath, filePath);
+}
+
+export function createReportStore(dataDir: string = getDefaultDataDir()): ReportStore {
+  const reportsDir = path.join(dataDir, REPORTS_DIR_NAME);
+  const reportPath = (id: string) => path.join(reportsDir, `${id}.json`);
+  const summaryPath = (id: string) => path.join(reportsDir, `${id}${SUMMARY_SUFFIX}`);
+
+  return {
+    async save(report) {
+      const id = createReportId(report.timestamp);
+      // The signature is only valid for the server that made it; it is added again when a report is served
+      const stored: ScanReport = { ...report, id, rootSignature: undefined };
+      const summary = summarize(id, stored);
+      try {
+        await fs.promises.mkdir(reportsDir, { recursive: true });
+        // Report first: a summary is only listed once its report exists
+        await writeJsonAtomic(reportPath(id), stored);
+        await writeJsonAtomic(summaryPath(id), summary);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`STORE_ERROR: Could not save report to ${reportsDir}: ${message}`);
+      }
+      report.id = id;
+      return summary;
+    },
+
+    async list({ rootPath, limit }: ReportListOptions = {}) {
+      let entries: string[];
+      try {
+        entries = await fs.promises.readdir(reportsDir);
+      } catch {
+        // Nothing saved yet
+        return [];
+      }
+
+      const ids = entries
+        .filter(entry => entry.endsWith(SUMMARY_SUFFIX))
+        .map(entry => entry.slice(0, -SUMMARY_SUFFIX.length));
+      const summaries = await Promise.all(ids.map(id => readJson<StoredReportSummary>(summaryPath(id))));
+      const normalizedRoot = rootPath ? path.resolve(rootPath) : null;
+
+      const matching = summaries
+        .filter((summary): summary is StoredReportSummary => summary !== null)
+        .filter(summary => !normalizedRoot || (!!summary.rootPath && path.resolve(summary.rootPath) === normalizedRoot))
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp) || b.id.localeCompare(a.id));
+      return limit ? matching.slice(0, limit) : matching;
+    },
+
+    async get(id) {
+      if (!REPORT_ID.test(id)) return null;
+      return readJson<ScanReport>(reportPath(id));
+    },
+
+    async delete(id) {
+      if (!REPORT_ID.test(id)) return false;
+      const unlink = (file: string) => fs.promises.unlink(file).then(() => true, () => false);
+      // Summary first so a partly deleted report stops being listed
+      const summaryRemoved = await unlink(summaryPath(id));
+      const reportRemoved = await unlink(reportPath(id));
+      return summaryRemoved || reportRemoved;
+    }
+  };
+}
@@ -0,0 +1,44 @@
+import { RULE_CATALOG } from './catalog';
+import { getCodeWindow } from '../fingerprint';
+import { createIssue, findMatches } from './helpers';
+import type { FileRule } from './types';
+
+const isJsxFile = (file: string) => file.endsWith('.tsx') || file.endsWith('.jsx');
+
+export const missingAltRule: FileRule = {
+  ...RULE_CATALOG.MISSING_ALT,
+  scope: 'file',
+  run({ file, content }) {
+    if (!isJsxFile(file)) {
+      return [];
+    }
+    return findMatches(content, /<img(?![^>]*alt=)[^>]*>/).map(({ index, location }) =>
+      createIssue(RULE_CATALOG.MISSING_ALT, {
+        id: `missing-alt-${file}:${location.startLine}:${location.startColumn}`,
+        fingerprintKey: getCodeWindow(content, index),
+        path: file,
+        location,
+        message: 'Image tag found without alt attribute. Add alt text for accessibility.'
+      })
+    );
+  }
+};
+
+export const missingLabelRule: FileRule = {
+  ...RULE_CATALOG.MISSING_LABEL,
+  scope: 'file',
+  run({ file, content }) {
+    if (!isJsxFile(file) || content.includes('<label')) {
+      return [];
+    }
+    return findMatches(content, /<input(?![^>]*aria-label)[^>]*>/).map(({ index, location }) =>
+      createIssue(RULE_CATALOG.MISSING_LABEL, {
+        id: `missing-label-${file}:${location.startLine}:${location.startColumn}`,
+        fingerprintKey: getCodeWindow(content, index),
+        path: file,
+        location,
+        message: 'Input field found without associated label or aria-label.'
+      })
+    );
+  }
+};
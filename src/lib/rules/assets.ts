@@ -0,0 +1,41 @@
+import path from 'path';
+import { RULE_CATALOG } from './catalog';
+import { createIssue, getFileContentKey } from './helpers';
+import type { ProjectRule } from './types';
+
+export const orphanAssetRule: ProjectRule = {
+  ...RULE_CATALOG.ORPHAN_ASSET,
+  scope: 'project',
+  // No fix: a name search misses computed paths, so deleting on its word could remove assets still in use
+  async run(context) {
+    const { config, listFiles, getAssetReferenceFiles } = context;
+    const publicPrefix = `public${path.sep}`;
+    const assetFiles = (await listFiles())
+      .filter(file => file.startsWith(publicPrefix))
+      .map(file => file.slice(publicPrefix.length));
+    const filteredAssets = assetFiles.filter(asset => !config.allowlists.assets.includes(path.basename(asset)));
+    if (filteredAssets.length === 0) {
+      return [];
+    }
+
+    const referenceFiles = await getAssetReferenceFiles();
+
+    const orphanAssets = filteredAssets.filter(asset => {
+      const assetName = path.basename(asset);
+      // Check if asset is referenced in any source file
+      return !referenceFiles.some(({ content }) =>
+        content.includes(assetName) || content.includes(asset)
+      );
+    });
+
+    return Promise.all(orphanAssets.map(async asset => {
+      const file = path.join('public', asset);
+      return createIssue(RULE_CATALOG.ORPHAN_ASSET, {
+        id: `orphan-asset-${asset}`,
+        fingerprintKey: await getFileContentKey(context, file),
+        path: file,
+        message: `Asset "${path.basename(asset)}" is not referenced by any code or stylesheet.`
+      });
+    }));
+  }
+};
@@ -0,0 +1,35 @@
+import { isAbortError } from '../abort';
+import { execCommand } from '../exec';
+import type { ExecError } from '../exec';
+import { RULE_CATALOG } from './catalog';
+import { createIssue } from './helpers';
+import type { ProjectRule } from './types';
+
+export const buildFailureRule: ProjectRule = {
+  ...RULE_CATALOG.BUILD_FAILURE,
+  scope: 'project',
+  // Type checking depends on every source file, tsconfig and the installed type packages
+  cacheKey: async ({ getDependencyHash, getCodeHash }) => `${await getDependencyHash()}:${await getCodeHash()}`,
+  async run({ rootPath, pathExists, signal }) {
+    if (!(await pathExists('tsconfig.json'))) {
+      return [];
+    }
+
+    try {
+      await execCommand('npx tsc --noEmit', { cwd: rootPath, signal });
+      return [];
+    } catch (error: unknown) {
+      if (isAbortError(error)) throw error;
+      const err = error as ExecError;
+      const stdout = err?.stdout || '';
+      return [
+        createIssue(RULE_CATALOG.BUILD_FAILURE, {
+          id: 'build-error',
+          fingerprintKey: 'tsc',
+          message: 'TypeScript build/check failed.',
+          snippet: stdout.split('\n').slice(0, 3).join('\n')
+        })
+      ];
+    }
+  }
+};
@@ -0,0 +1,278 @@
+import type { IssueCategory, IssueSeverity } from '../types';
+
+/**
+ * Rule and category metadata.
+ * Kept free of Node.js imports so client components can derive their lists from it.
+ */
+
+interface CategoryMeta {
+  id: IssueCategory;
+  label: string;
+  stepLabel: string;
+  title: string;
+}
+
+export interface RuleMeta {
+  id: string;
+  category: IssueCategory;
+  severity: IssueSeverity;
+  description: string;
+  suggestedAction: string;
+  shortAction: string;
+}
+
+// Display order used by the scan pipeline, issue map and summaries
+export const CATEGORIES: CategoryMeta[] = [
+  { id: 'git', label: 'Git', stepLabel: 'Git Status', title: 'Git' },
+  { id: 'filesystem', label: 'File System', stepLabel: 'File System', title: 'Filesystem' },
+  { id: 'assets', label: 'Assets', stepLabel: 'Assets', title: 'Assets' },
+  { id: 'orphans', label: 'Orphans', stepLabel: 'Orphans', title: 'Orphan Modules' },
+  { id: 'dependencies', label: 'Dependencies', stepLabel: 'Dependencies', title: 'Dependencies' },
+  { id: 'licenses', label: 'Licenses', stepLabel: 'Licenses', title: 'Licenses' },
+  { id: 'security', label: 'Security', stepLabel: 'Security', title: 'Security' },
+  { id: 'env', label: 'Env', stepLabel: 'Env Check', title: 'Environment' },
+  { id: 'seo', label: 'SEO', stepLabel: 'SEO', title: 'SEO' },
+  { id: 'accessibility', label: 'A11y', stepLabel: 'A11y', title: 'Accessibility' },
+  { id: 'code-quality', label: 'Code Quality', stepLabel: 'Code Quality', title: 'Code Quality' },
+  { id: 'performance', label: 'Performance', stepLabel: 'Performance', title: 'Performance' },
+  { id: 'build', label: 'Build', stepLabel: 'Build', title: 'Build' },
+];
+
+const defineMeta = <T extends Record<string, Omit<RuleMeta, 'id'>>>(entries: T) =>
+  Object.fromEntries(
+    Object.entries(entries).map(([id, meta]) => [id, { id, ...meta }])
+  ) as { [K in keyof T]: RuleMeta };
+
+export const RULE_CATALOG = defineMeta({
+  UNCOMMITTED_CHANGES: {
+    category: 'git',
+    severity: 'warning',
+    description: 'Working tree has uncommitted changes (only checked when the target contains a .git directory).',
+    suggestedAction: 'commit or stash changes',
+    shortAction: 'commit or stash'
+  },
+  EMPTY_DIR: {
+    category: 'filesystem',
+    severity: 'info',
+    description: 'Directory under src/ contains no files.',
+    suggestedAction: 'delete directory',
+    shortAction: 'delete directory'
+  },
+  ZERO_BYTE_FILE: {
+    category: 'filesystem',
+    severity: 'info',
+    description: 'File is 0 bytes.',
+    suggestedAction: 'delete file',
+    shortAction: 'delete file'
+  },
+  BACKUP_FILE: {
+    category: 'filesystem',
+    severity: 'warning',
+    description: 'File name matches one of the backupPatterns globs (copy, backup, draft, temporary files).',
+    suggestedAction: 'delete file',
+    shortAction: 'delete file'
+  },
+  ORPHAN_ASSET: {
+    category: 'assets',
+    severity: 'info',
+    description: 'File in public/ is not referenced by any code file or stylesheet outside public/.',
+    suggestedAction: 'delete asset file',
+    shortAction: 'delete asset'
+  },
+  UNUSED_DEP: {
+    category: 'dependencies',
+    severity: 'warning',
+    description: 'Package listed in dependencies is never imported (via depcheck).',
+    suggestedAction: 'remove from package.json dependencies',
+    shortAction: 'remove from package.json'
+  },
+  UNUSED_DEV_DEP: {
+    category: 'dependencies',
+    severity: 'info',
+    description: 'Package listed in devDependencies is never imported (via depcheck).',
+    suggestedAction: 'remove from package.json devDependencies',
+    shortAction: 'remove from package.json'
+  },
+  MISSING_DEP: {
+    category: 'dependencies',
+    severity: 'error',
+    description: 'Package is imported but not declared in package.json (via depcheck).',
+    suggestedAction: 'add to package.json dependencies',
+    shortAction: 'add to package.json'
+  },
+  UNPINNED_VERSION: {
+    category: 'dependencies',
+    severity: 'warning',
+    description: 'Dependency uses a range (^, ~, *, latest) instead of an exact version.',
+    suggestedAction: 'pin exact version in package.json',
+    shortAction: 'pin version in package.json'
+  },
+  VIRAL_LICENSE: {
+    category: 'licenses',
+    severity: 'critical',
+    description: 'Installed package uses a GPL, AGPL or LGPL license.',
+    suggestedAction: 'review license compatibility or replace package',
+    shortAction: 'review license compatibility'
+  },
+  ORPHAN_MODULE: {
+    category: 'orphans',
+    severity: 'warning',
+    description: 'Source file is not reachable through imports from any entry point (Next.js routes, package.json main/bin/exports, npm scripts, config and test files, configured entryPoints).',
+    suggestedAction: 'delete file or add import reference',
+    shortAction: 'delete file or add import'
+  },
+  UNUSED_EXPORT: {
+    category: 'orphans',
+    severity: 'info',
+    description: 'Named or default export of a reachable module that no module imports, directly or through re-exports. Exports Next.js reads by convention and exports of package entry points count as used.',
+    suggestedAction: 'remove the export keyword or delete the unused declaration',
+    shortAction: 'remove unused export'
+  },
+  HARDCODED_SECRET: {
+    category: 'security',
+    severity: 'critical',
+    description: 'Source contains a value matching a known API key or token format.',
+    suggestedAction: 'move to environment variable and remove from code',
+    shortAction: 'move to environment variable'
+  },
+  MISSING_ENV_VAR: {
+    category: 'env',
+    severity: 'error',
+    description: 'Environment variable is read in code (process.env, import.meta.env, destructuring or an env schema) but not defined in any .env file.',
+    suggestedAction: 'add to .env file',
+    shortAction: 'add to .env file'
+  },
+  ENV_EXAMPLE_MISSING_VAR: {
+    category: 'env',
+    severity: 'warning',
+    description: 'Environment variable is read in code but not documented in .env.example (only checked when the example file exists).',
+    suggestedAction: 'add to .env.example (or regenerate it with sanity-gate env-example --write)',
+    shortAction: 'document in .env.example'
+  },
+  ENV_EXAMPLE_UNUSED_VAR: {
+    category: 'env',
+    severity: 'info',
+    description: 'Environment variable is documented in .env.example but no source file reads it.',
+    suggestedAction: 'remove from .env.example',
+    shortAction: 'remove from .env.example'
+  },
+  ENV_EXAMPLE_SECRET: {
+    category: 'security',
+    severity: 'critical',
+    description: 'Example env file contains a value that looks like a real credential instead of a placeholder.',
+    suggestedAction: 'replace with a placeholder and rotate the credential',
+    shortAction: 'replace with placeholder'
+  },
+  EXPOSED_SECRET_FILE: {
+    category: 'security',
+    severity: 'error',
+    description: 'Env file, private key or credential JSON is committed to git or not covered by .gitignore (critical when it holds secret-looking values).',
+    suggestedAction: 'add it to .gitignore, remove it from the index with git rm --cached, and rotate what it contains if it was ever pushed',
+    shortAction: 'ignore and untrack'
+  },
+  UNUSED_ENV_VAR: {
+    category: 'env',
+    severity: 'info',
+    description: 'Variable is defined in a .env file but no source file reads it.',
+    suggestedAction: 'remove from the .env file',
+    shortAction: 'remove from .env'
+  },
+  PUBLIC_ENV_SECRET: {
+    category: 'security',
+    severity: 'error',
+    description: 'Variable with a browser-exposed prefix (NEXT_PUBLIC_, VITE_, REACT_APP_, EXPO_PUBLIC_) is named like a secret; its value is bundled into client code.',
+    suggestedAction: 'drop the public prefix and read it on the server only, or rotate it if it is a real secret',
+    shortAction: 'keep on the server'
+  },
+  MISSING_METADATA: {
+    category: 'seo',
+    severity: 'warning',
+    description: 'Next.js app page or layout does not export metadata or generateMetadata.',
+    suggestedAction: 'add metadata export with title and description',
+    shortAction: 'add metadata export'
+  },
+  MISSING_ALT: {
+    category: 'accessibility',
+    severity: 'warning',
+    description: '<img> element without an alt attribute.',
+    suggestedAction: 'add alt attribute to img tag',
+    shortAction: 'add alt attribute'
+  },
+  MISSING_LABEL: {
+    category: 'accessibility',
+    severity: 'warning',
+    description: '<input> element without aria-label in a file that has no <label>.',
+    suggestedAction: 'add label element or aria-label attribute',
+    shortAction: 'add label or aria-label'
+  },
+  CONSOLE_LOG: {
+    category: 'code-quality',
+    severity: 'warning',
+    description: 'console.log call that is not guarded by a development check.',
+    suggestedAction: 'remove console.log or wrap in dev check',
+    shortAction: 'remove or wrap in dev check'
+  },
+  TODO_COMMENT: {
+    category: 'code-quality',
+    severity: 'info',
+    description: 'Unresolved // TODO: or // FIXME: comment.',
+    suggestedAction: 'resolve TODO/FIXME or remove comment',
+    shortAction: 'resolve or remove'
+  },
+  LARGE_FILE: {
+    category: 'performance',
+    severity: 'warning',
+    description: 'File is larger than thresholds.largeFileBytes (5 MB by default).',
+    suggestedAction: 'optimize file or implement lazy loading',
+    shortAction: 'optimize or split'
+  },
+  SYNC_IO: {
+    category: 'performance',
+    severity: 'warning',
+    description: 'Source calls readFileSync, writeFileSync or readdirSync.',
+    suggestedAction: 'convert to async (readFile, writeFile, readdir)',
+    shortAction: 'convert to async'
+  },
+  CIRCULAR_IMPORT: {
+    category: 'code-quality',
+    severity: 'warning',
+    description: 'Modules import each other in a cycle. Runtime cycles are warnings; cycles made only of type-only or dynamic imports are info.',
+    suggestedAction: 'move the shared code into a module both sides import, or make one side a type-only import',
+    shortAction: 'break the import cycle'
+  },
+  INVALID_SUPPRESSION: {
+    category: 'code-quality',
+    severity: 'warning',
+    description: 'sanity-gate-disable comment without a "-- reason", without rule ids, or naming an unknown rule.',
+    suggestedAction: 'add rule ids and a reason after "--" to the suppression comment',
+    shortAction: 'fix suppression comment'
+  },
+  UNUSED_SUPPRESSION: {
+    category: 'code-quality',
+    severity: 'info',
+    description: 'sanity-gate-disable comment that no longer suppresses any issue.',
+    suggestedAction: 'remove the suppression comment',
+    shortAction: 'remove suppression comment'
+  },
+  BROKEN_IMPORT: {
+    category: 'build',
+    severity: 'error',
+    description: 'Relative import, tsconfig path alias import or asset reference (CSS url(), @import, new URL(), /public paths in src/href) that points to a missing file.',
+    suggestedAction: 'fix the path or restore the missing file',
+    shortAction: 'fix import path'
+  },
+  IMPORT_CASE_MISMATCH: {
+    category: 'build',
+    severity: 'error',
+    description: 'Import or asset reference whose letter case differs from the file on disk, which breaks on case-sensitive file systems such as Linux CI.',
+    suggestedAction: 'change the import to match the file name exactly',
+    shortAction: 'match file name case'
+  },
+  BUILD_FAILURE: {
+    category: 'build',
+    severity: 'error',
+    description: 'npx tsc --noEmit fails (only checked when tsconfig.json exists).',
+    suggestedAction: 'fix TypeScript errors',
+    shortAction: 'fix TypeScript errors'
+  },
+});
@@ -0,0 +1,55 @@
+import { RULE_CATALOG } from './catalog';
+import { getCodeWindow } from '../fingerprint';
+import { createIssue, findMatches } from './helpers';
+import type { FileRule } from './types';
+
+// Look back this many lines for a development-only guard around console.log
+const DEV_CHECK_LOOKBACK = 10;
+
+const hasDevelopmentCheck = (lines: string[], lineIndex: number): boolean => {
+  const beforeLines = lines.slice(Math.max(0, lineIndex - DEV_CHECK_LOOKBACK), lineIndex).join('\n');
+  return beforeLines.includes('process.env.NODE_ENV') &&
+    (beforeLines.includes('development') || beforeLines.includes('=== \'development\'') || beforeLines.includes('=== "development"'));
+};
+
+export const consoleLogRule: FileRule = {
+  ...RULE_CATALOG.CONSOLE_LOG,
+  scope: 'file',
+  run({ file, content, isAnalyzerSource }) {
+    // Skip logger.ts files as they intentionally use console.log for debugging
+    if (isAnalyzerSource || file.includes('logger.ts') || file.includes('logger.js')) {
+      return [];
+    }
+    const lines = content.split('\n');
+    return findMatches(content, /console\.log\(/)
+      .filter(({ location }) => !hasDevelopmentCheck(lines, location.startLine - 1))
+      .map(({ index, location }) =>
+        createIssue(RULE_CATALOG.CONSOLE_LOG, {
+          id: `console-log-${file}:${location.startLine}:${location.startColumn}`,
+          fingerprintKey: getCodeWindow(content, index),
+          path: file,
+          location,
+          message: 'Console.log statement found. Remove before production.'
+        })
+      );
+  }
+};
+
+export const todoCommentRule: FileRule = {
+  ...RULE_CATALOG.TODO_COMMENT,
+  scope: 'file',
+  run({ file, content, isAnalyzerSource }) {
+    if (isAnalyzerSource) {
+      return [];
+    }
+    return findMatches(content, /\/\/ (?:TODO|FIXME):[^\r\n]*/).map(({ index, location }) =>
+      createIssue(RULE_CATALOG.TODO_COMMENT, {
+        id: `todo-${file}:${location.startLine}:${location.startColumn}`,
+        fingerprintKey: getCodeWindow(content, index),
+        path: file,
+        location,
+        message: 'Unresolved TODO or FIXME comment found.'
+      })
+    );
+  }
+};
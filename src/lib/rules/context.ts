@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import depcheck from 'depcheck';
+import { raceAbort, throwIfAborted } from '../abort';
+import { DEFAULT_CONFIG } from '../config';
+import { collectEnvUsage } from '../env';
+import { loadLockfile } from '../lockfile';
+import { buildModuleGraph, isCodeFile } from '../module-graph';
+import type { LoggerFunction, SanityGateConfig } from '../types';
+import { createVirtualFileSystem } from '../vfs';
+import { toError } from './helpers';
+import type { DepcheckResult, PackageJson, RuleContext } from './types';
+
+// Shared glob ignore patterns so nested project artifacts like node_modules are skipped everywhere
+const DEFAULT_GLOB_IGNORE = [
+  'node_modules/**',
+  '**/node_modules/**',
+  '.git/**',
+  '**/.git/**',
+  '.next/**',
+  '**/.next/**',
+  'dist/**',
+  '**/dist/**',
+  'build/**',
+  '**/build/**',
+  '.sanity-gate/**'
+];
+
+// Source files are code files below one of these directories, at any depth
+const SOURCE_DIRS = new Set(['src', 'app', 'pages', 'components', 'lib', 'utils']);
+const SOURCE_EXTENSION = /\.(?:ts|tsx|js|jsx)$/;
+
+// Code and stylesheets anywhere outside public/ (src/, app/, root configs) may reference public assets
+const ASSET_REFERENCE_EXTENSION = /\.(?:ts|tsx|js|jsx|mjs|cjs|css|scss)$/;
+
+const LOCKFILE_NAMES = ['package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lock', 'bun.lockb'];
+const TS_CONFIG_FILE = /(?:^|\/)[jt]sconfig(?:\.[\w-]+)?\.json$/;
+
+const DEPCHECK_OPTIONS = {
+  ignoreBinPackage: true, // Skip binary packages for speed
+  skipMissing: false,
+  ignorePatterns: [
+    'dist', 'build', '.next', 'node_modules',
+    '**/dist/**', '**/build/**', '**/.next/**', '**/node_modules/**',
+    '**/*.test.*', '**/*.spec.*', '**/*.test.ts', '**/*.test.tsx',
+    '**/*.spec.ts', '**/*.spec.tsx', '**/tests/**', '**/__tests__/**',
+    '**/*.stories.*', '**/*.mock.*', '**/coverage/**', '**/.storybook/**'
+  ],
+  ignoreMatches: [
+    'eslint*', '@types/*', '@testing-library/*', 'jest*',
+    'vitest*', 'mocha*', 'chai*', 'sinon*', 'cypress*', 'playwright*',
+    'webpack*', 'rollup*', 'vite*', 'tailwindcss*', 'postcss*', 'autoprefixer*'
+  ],
+};
+
+const memoize = <T>(fn: () => Promise<T>): (() => Promise<T>) => {
+  let cached: Promise<T> | null = null;
+  return () => {
+    if (!cached) {
+      cached = fn();
+    }
+    return cached;
+  };
+};
+
+const toSegments = (file: string) => file.split(/[\\/]/);
+
+// Dotfiles and dot directories are indexed but, like glob's default, left out of file listings
+const isVisible = (file: string) => !toSegments(file).some(segment => segment.startsWith('.'));
+
+const isSourceFile = (file: string) =>
+  SOURCE_EXTENSION.test(file) && toSegments(file).slice(0, -1).some(segment => SOURCE_DIRS.has(segment));
+
+/**
+ * Creates the shared context for project-level rules.
+ * Expensive data (file lists, contents, depcheck) is computed on first use and shared.
+ */
+export function createRuleContext(
+  rootPath: string,
+  logger?: LoggerFunction,
+  config: SanityGateConfig = DEFAULT_CONFIG,
+  signal?: AbortSignal
+): RuleContext {
+  const log = logger || (() => {});
+  const globIgnore = [...DEFAULT_GLOB_IGNORE, ...config.ignore];
+
+  const vfs = createVirtualFileSystem(rootPath, {
+    ignore: globIgnore,
+    maxReadBytes: config.thresholds.maxReadBytes,
+    contentCacheBytes: config.thresholds.contentCacheBytes,
+    log,
+    signal
+  });
+
+  const getFileStats = memoize(async () => (await vfs.getIndex()).files.filter(({ file }) => isVisible(file)));
+
+  const listFiles = memoize(async () => {
+    const files = (await getFileStats()).map(({ file }) => file);
+    log('info', 'scan', 'Files found for analysis', { count: files.length });
+    return files;
+  });
+
+  const findFiles = (predicate: (file: string) => boolean) =>
+    memoize(async () => (await listFiles()).filter(predicate));
+
+  const sourceFileNames = findFiles(isSourceFile);
+  const assetReferenceFileNames = findFiles(file =>
+    toSegments(file)[0] !== 'public' && ASSET_REFERENCE_EXTENSION.test(file)
+  );
+  // .env files sit at the root and are dotfiles, so they come from the full index
+  const envFileNames = memoize(async () =>
+    (await vfs.getIndex()).files
+      .map(({ file }) => file)
+      .filter(file => toSegments(file).length === 1 && file.startsWith('.env'))
+  );
+
+  // Contents are not memoized here: the file layer caches them up to its memory cap
+  const getSourceFiles = async () => vfs.readFiles(await sourceFileNames());
+  const getAssetReferenceFiles = async () => vfs.readFiles(await assetReferenceFileNames());
+  const getEnvFiles = async () => vfs.readFiles(await envFileNames());
+  const getEnvUsage = memoize(async () => collectEnvUsage(await getSourceFiles()));
+
+  const readPackageJson = memoize(async (): Promise<PackageJson | null> => {
+    try {
+      const content = await vfs.readFile('package.json');
+      return content === null ? null : JSON.parse(content) as PackageJson;
+    } catch {
+      // package.json missing or invalid
+      return null;
+    }
+  });
+
+  const getLockfile = memoize(() => loadLockfile(rootPath));
+
+  // Run depcheck with aggressive timeout
+  const runDepcheck = memoize(async (): Promise<DepcheckResult> => {
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const timeoutPromise = new Promise<DepcheckResult>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Depcheck timed out after ${config.thresholds.depcheckTimeoutMs} ms`)), config.thresholds.depcheckTimeoutMs);
+      });
+      const depcheckOptions = {
+        ...DEPCHECK_OPTIONS,
+        ignorePatterns: [...DEPCHECK_OPTIONS.ignorePatterns, ...config.ignore]
+      };
+      return await raceAbort(Promise.race([depcheck(rootPath, depcheckOptions), timeoutPromise]), signal);
+    } catch (error: unknown) {
+      throwIfAborted(signal);
+      // Fail the dependency rules rather than report (and cache) "no dependency issues"
+      throw new Error(`DEPCHECK_ERROR: ${toError(error).message}`);
+    } finally {
+      clearTimeout(timer);
+    }
+  });
+
+  const getModuleGraph = memoize(async () => {
+    const graph = await buildModuleGraph({
+      rootPath,
+      files: await listFiles(),
+      readFile: vfs.readFile,
+      matchFiles: vfs.matchFiles,
+      packageJson: await readPackageJson(),
+      entryPoints: config.entryPoints
+    });
+    log('info', 'scan', 'Module graph built', {
+      modules: graph.modules.size,
+      entryPoints: graph.entryPoints.size,
+      reachable: graph.reachable.size
+    });
+    return graph;
+  });
+
+  // Hash of file names and contents; files read for rules are not read again
+  const hashFiles = async (files: string[]) => {
+    const hash = crypto.createHash('sha256');
+    const sorted = [...files].sort();
+    const fileHashes = await Promise.all(sorted.map(vfs.hashFile));
+    sorted.forEach((file, index) => {
+      hash.update(`${file}\0${fileHashes[index] ?? ''}\0`);
+    });
+    return hash.digest('hex');
+  };
+
+  const getDependencyHash = memoize(async () => {
+    const present = await Promise.all(
+      ['package.json', ...LOCKFILE_NAMES].map(async file => ((await pathExists(file)) ? file : null))
+    );
+    return hashFiles(present.filter((file): file is string => file !== null));
+  });
+
+  const getCodeHash = memoize(async () => {
+    const files = await listFiles();
+    return hashFiles(files.filter(file => isCodeFile(file) || file.endsWith('.d.ts') || TS_CONFIG_FILE.test(file)));
+  });
+
+  const pathExists = (relativePath: string) =>
+    fs.promises
+      .access(path.join(rootPath, relativePath))
+      .then(() => true)
+      .catch(() => false);
+
+  return {
+    rootPath,
+    log,
+    config,
+    globIgnore,
+    signal,
+    pathExists,
+    getFileIndex: vfs.getIndex,
+    readFile: vfs.readFile,
+    hashFile: vfs.hashFile,
+    matchFiles: vfs.matchFiles,
+    listFiles,
+    getFileStats,
+    getSourceFiles,
+    getAssetReferenceFiles,
+    getEnvFiles,
+    getEnvUsage,
+    readPackageJson,
+    getLockfile,
+    runDepcheck,
+    getModuleGraph,
+    getDependencyHash,
+    getCodeHash
+  };
+}
@@ -0,0 +1,145 @@
+import path from 'path';
+import type { Lockfile } from '../lockfile';
+import { removeDependency, setDependencyVersion } from '../package-json';
+import type { DependencySection } from '../package-json';
+import type { Issue } from '../types';
+import { RULE_CATALOG } from './catalog';
+import { createIssue } from './helpers';
+import type { ProjectRule, RuleContext, RuleFix } from './types';
+
+// depcheck reads package.json and every import in the code
+const depcheckCacheKey = async ({ getDependencyHash, getCodeHash }: RuleContext) =>
+  `${await getDependencyHash()}:${await getCodeHash()}`;
+
+// Issue ids end in the package name, which fixes read back
+const UNUSED_DEP_ID = 'unused-dep-';
+const UNUSED_DEV_DEP_ID = 'unused-dev-dep-';
+const UNPINNED_ID: Record<DependencySection, string> = {
+  dependencies: 'unpinned-dependency-',
+  devDependencies: 'unpinned-devDependency-'
+};
+
+const packageFromId = (issue: Issue, prefix: string) =>
+  issue.id.startsWith(prefix) ? issue.id.slice(prefix.length) : null;
+
+const removeFromSection = (section: DependencySection, prefix: string): RuleFix => async issue => {
+  const name = packageFromId(issue, prefix);
+  if (!name) return null;
+  return {
+    kind: 'edit',
+    path: 'package.json',
+    description: `remove ${section} "${name}"`,
+    apply: content => removeDependency(content, section, name)
+  };
+};
+
+// Without a lockfile entry, "^1.2.3" and "~1.2.3" pin to the lowest version they allow; "*" and "latest" to none
+const EXACT_LOWER_BOUND = /^[\^~](\d+\.\d+\.\d+(?:[-+][\w.+-]*)?)$/;
+
+// The exact version to pin a range to, and the lockfile it came from
+function findPinVersion(lockfile: Lockfile | null, name: string, range: string) {
+  const locked = lockfile?.resolve(name, range);
+  if (locked) return { version: locked, source: lockfile?.file };
+  const lowerBound = EXACT_LOWER_BOUND.exec(range)?.[1];
+  return lowerBound ? { version: lowerBound, source: undefined } : null;
+}
+
+const pinVersion: RuleFix = async (issue, { readPackageJson, getLockfile }) => {
+  const section = (Object.keys(UNPINNED_ID) as DependencySection[]).find(key => issue.id.startsWith(UNPINNED_ID[key]));
+  const name = section && packageFromId(issue, UNPINNED_ID[section]);
+  const range = section && name ? (await readPackageJson())?.[section]?.[name] : undefined;
+  const pin = section && name && range ? findPinVersion(await getLockfile(), name, range) : null;
+  if (!section || !name || !pin) return null;
+  return {
+    kind: 'edit',
+    path: 'package.json',
+    description: `pin ${section} "${name}" to ${pin.version}${pin.source ? ` (${pin.source})` : ''}`,
+    apply: content => setDependencyVersion(content, section, name, pin.version)
+  };
+};
+
+export const unusedDependencyRule: ProjectRule = {
+  ...RULE_CATALOG.UNUSED_DEP,
+  scope: 'project',
+  cacheKey: depcheckCacheKey,
+  fix: removeFromSection('dependencies', UNUSED_DEP_ID),
+  async run({ runDepcheck }) {
+    const { dependencies } = await runDepcheck();
+    return dependencies.map(dep =>
+      createIssue(RULE_CATALOG.UNUSED_DEP, {
+        id: `${UNUSED_DEP_ID}${dep}`,
+        fingerprintKey: dep,
+        message: `Unused dependency: "${dep}"`
+      })
+    );
+  }
+};
+
+export const unusedDevDependencyRule: ProjectRule = {
+  ...RULE_CATALOG.UNUSED_DEV_DEP,
+  scope: 'project',
+  cacheKey: depcheckCacheKey,
+  fix: removeFromSection('devDependencies', UNUSED_DEV_DEP_ID),
+  async run({ runDepcheck }) {
+    const { devDependencies } = await runDepcheck();
+    return devDependencies.map(dep =>
+      createIssue(RULE_CATALOG.UNUSED_DEV_DEP, {
+        id: `${UNUSED_DEV_DEP_ID}${dep}`,
+        fingerprintKey: dep,
+        message: `Unused devDependency: "${dep}"`
+      })
+    );
+  }
+};
+
+export const missingDependencyRule: ProjectRule = {
+  ...RULE_CATALOG.MISSING_DEP,
+  scope: 'project',
+  cacheKey: depcheckCacheKey,
+  async run({ rootPath, runDepcheck }) {
+    const { missing } = await runDepcheck();
+    return Object.keys(missing).map(dep =>
+      createIssue(RULE_CATALOG.MISSING_DEP, {
+        id: `missing-dep-${dep}`,
+        fingerprintKey: dep,
+        message: `Missing dependency: "${dep}"`,
+        snippet: `Used in: ${missing[dep].map(f => path.relative(rootPath, f)).join(', ')}`
+      })
+    );
+  }
+};
+
+export const unpinnedVersionRule: ProjectRule = {
+  ...RULE_CATALOG.UNPINNED_VERSION,
+  scope: 'project',
+  cacheKey: ({ getDependencyHash }) => getDependencyHash(),
+  fix: pinVersion,
+  async run({ readPackageJson, getLockfile }) {
+    const packageJson = await readPackageJson();
+    if (!packageJson) {
+      // package.json doesn't exist, skip
+      return [];
+    }
+    const lockfile = await getLockfile();
+
+    const checkVersions = (deps: Record<string, string> | undefined, type: string, idPrefix: string) =>
+      Object.entries(deps || {})
+        .filter(([, version]) =>
+          version === '*' || version === 'latest' || version.includes('^') || version.includes('~')
+        )
+        .map(([name, version]) => {
+          const locked = lockfile?.resolve(name, version);
+          return createIssue(RULE_CATALOG.UNPINNED_VERSION, {
+            id: `${idPrefix}${name}`,
+            fingerprintKey: `${type}:${name}`,
+            message: `${type} "${name}" uses non-deterministic version: "${version}". Consider pinning exact versions.`,
+            ...(locked && { suggestedAction: `pin exact version "${locked}" (installed per ${lockfile?.file})` })
+          });
+        });
+
+    return [
+      ...checkVersions(packageJson.dependencies, 'dependency', UNPINNED_ID.dependencies),
+      ...checkVersions(packageJson.devDependencies, 'devDependency', UNPINNED_ID.devDependencies)
+    ];
+  }
+};
@@ -0,0 +1,166 @@
+import { ENV_EXAMPLE_FILES, isPublicSecretName, looksLikeSecretValue, parseEnvFile } from '../env';
+import type { EnvEntry } from '../env';
+import { RULE_CATALOG } from './catalog';
+import { createIssue } from './helpers';
+import type { Issue, IssueLocation } from '../types';
+import type { ProjectRule, RuleContext } from './types';
+
+// The project's example env file and its entries; null when there is none
+async function readEnvExample({ readFile }: RuleContext): Promise<{ file: string; entries: EnvEntry[] } | null> {
+  for (const file of ENV_EXAMPLE_FILES) {
+    const content = await readFile(file);
+    if (content !== null) return { file, entries: parseEnvFile(content) };
+  }
+  return null;
+}
+
+const entryLocation = ({ key, line, column }: EnvEntry) =>
+  ({ startLine: line, startColumn: column, endLine: line, endColumn: column + key.length });
+
+export const missingEnvVarRule: ProjectRule = {
+  ...RULE_CATALOG.MISSING_ENV_VAR,
+  scope: 'project',
+  async run({ getEnvUsage, getEnvFiles }) {
+    const envVarsUsed = await getEnvUsage();
+
+    // Check .env files
+    const definedEnvVars = new Set<string>();
+    for (const { content } of await getEnvFiles()) {
+      for (const entry of parseEnvFile(content)) {
+        if (!entry.commented) definedEnvVars.add(entry.key);
+      }
+    }
+
+    return [...envVarsUsed.keys()]
+      .filter(envVar => !definedEnvVars.has(envVar))
+      .map(envVar =>
+        createIssue(RULE_CATALOG.MISSING_ENV_VAR, {
+          id: `missing-env-${envVar}`,
+          fingerprintKey: envVar,
+          message: `Environment variable "${envVar}" is used in code but not defined in any .env file.`
+        })
+      );
+  }
+};
+
+export const envExampleMissingVarRule: ProjectRule = {
+  ...RULE_CATALOG.ENV_EXAMPLE_MISSING_VAR,
+  scope: 'project',
+  async run(context) {
+    const example = await readEnvExample(context);
+    if (!example) {
+      // Nothing to drift from; MISSING_ENV_VAR still covers undefined variables
+      return [];
+    }
+
+    const documented = new Set(example.entries.map(entry => entry.key));
+    return [...(await context.getEnvUsage())]
+      .filter(([envVar]) => !documented.has(envVar))
+      .map(([envVar, references]) =>
+        createIssue(RULE_CATALOG.ENV_EXAMPLE_MISSING_VAR, {
+          id: `env-example-missing-${envVar}`,
+          fingerprintKey: envVar,
+          path: example.file,
+          message: `Environment variable "${envVar}" is read in code but not documented in ${example.file}.`,
+          snippet: `Used in: ${references.map(reference => reference.file).join(', ')}`
+        })
+      );
+  }
+};
+
+export const envExampleUnusedVarRule: ProjectRule = {
+  ...RULE_CATALOG.ENV_EXAMPLE_UNUSED_VAR,
+  scope: 'project',
+  async run(context) {
+    const example = await readEnvExample(context);
+    if (!example) return [];
+
+    const used = await context.getEnvUsage();
+    return example.entries
+      .filter(entry => !used.has(entry.key))
+      .map(entry =>
+        createIssue(RULE_CATALOG.ENV_EXAMPLE_UNUSED_VAR, {
+          id: `env-example-unused-${entry.key}`,
+          fingerprintKey: entry.key,
+          path: example.file,
+          location: entryLocation(entry),
+          message: `Environment variable "${entry.key}" is documented in ${example.file} but not read by any source file.`
+        })
+      );
+  }
+};
+
+export const envExampleSecretRule: ProjectRule = {
+  ...RULE_CATALOG.ENV_EXAMPLE_SECRET,
+  scope: 'project',
+  async run(context) {
+    const example = await readEnvExample(context);
+    if (!example) return [];
+
+    return example.entries
+      .filter(entry => looksLikeSecretValue(entry.key, entry.value))
+      .map(entry =>
+        createIssue(RULE_CATALOG.ENV_EXAMPLE_SECRET, {
+          id: `env-example-secret-${entry.key}`,
+          fingerprintKey: entry.key,
+          path: example.file,
+          location: entryLocation(entry),
+          message: `${example.file} contains what looks like a real value for "${entry.key}".`,
+          snippet: '***REDACTED***'
+        })
+      );
+  }
+};
+
+export const unusedEnvVarRule: ProjectRule = {
+  ...RULE_CATALOG.UNUSED_ENV_VAR,
+  scope: 'project',
+  async run({ getEnvFiles, getEnvUsage }) {
+    const used = await getEnvUsage();
+    const issues: Issue[] = [];
+    for (const { file, content } of await getEnvFiles()) {
+      // Example files are covered by ENV_EXAMPLE_UNUSED_VAR
+      if (ENV_EXAMPLE_FILES.includes(file)) continue;
+      for (const entry of parseEnvFile(content)) {
+        if (entry.commented || used.has(entry.key)) continue;
+        issues.push(createIssue(RULE_CATALOG.UNUSED_ENV_VAR, {
+          id: `unused-env-${file}-${entry.key}`,
+          fingerprintKey: entry.key,
+          path: file,
+          location: entryLocation(entry),
+          message: `Environment variable "${entry.key}" is defined in ${file} but not read by any source file.`
+        }));
+      }
+    }
+    return issues;
+  }
+};
+
+export const publicEnvSecretRule: ProjectRule = {
+  ...RULE_CATALOG.PUBLIC_ENV_SECRET,
+  scope: 'project',
+  async run({ getEnvFiles, getEnvUsage }) {
+    // First read in code, otherwise the first definition in a .env file
+    const occurrences = new Map<string, { path: string; location: IssueLocation }>();
+    for (const [envVar, references] of await getEnvUsage()) {
+      if (isPublicSecretName(envVar)) occurrences.set(envVar, { path: references[0].file, location: references[0].location });
+    }
+    for (const { file, content } of await getEnvFiles()) {
+      for (const entry of parseEnvFile(content)) {
+        if (!entry.commented && isPublicSecretName(entry.key) && !occurrences.has(entry.key)) {
+          occurrences.set(entry.key, { path: file, location: entryLocation(entry) });
+        }
+      }
+    }
+
+    return [...occurrences].map(([envVar, { path, location }]) =>
+      createIssue(RULE_CATALOG.PUBLIC_ENV_SECRET, {
+        id: `public-env-secret-${envVar}`,
+        fingerprintKey: envVar,
+        path,
+        location,
+        message: `"${envVar}" is named like a secret, but its prefix makes the framework bundle its value into browser code.`
+      })
+    );
+  }
+};
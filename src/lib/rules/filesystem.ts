@@ -0,0 +1,101 @@
+import path from 'path';
+import type { FileIndex } from '../vfs';
+import { RULE_CATALOG } from './catalog';
+import { createIssue, deleteIssuePath, getFileContentKey } from './helpers';
+import type { ProjectRule } from './types';
+
+// Directories at or below root with no file anywhere beneath them
+function findEmptyDirs({ files, directories }: FileIndex, root: string): string[] {
+  const isWithinRoot = (entry: string) => entry === root || entry.startsWith(`${root}${path.sep}`);
+  const withContent = new Set<string>();
+
+  for (const { file } of files) {
+    if (!isWithinRoot(file)) continue;
+    // Ancestors of a directory already marked are marked too
+    for (let dir = path.dirname(file); dir !== '.' && !withContent.has(dir); dir = path.dirname(dir)) {
+      withContent.add(dir);
+    }
+  }
+
+  return directories.filter(dir => isWithinRoot(dir) && !withContent.has(dir));
+}
+
+export const emptyDirRule: ProjectRule = {
+  ...RULE_CATALOG.EMPTY_DIR,
+  scope: 'project',
+  fix: deleteIssuePath,
+  async run({ rootPath, log, getFileIndex }) {
+    log('info', 'scan', 'Starting filesystem scan');
+    const index = await getFileIndex();
+    if (!index.directories.includes('src')) {
+      // src dir doesn't exist, skip
+      return [];
+    }
+
+    const emptyDirs = findEmptyDirs(index, 'src');
+    log('info', 'scan', 'Empty directories found', { count: emptyDirs.length });
+    return emptyDirs.map(dir =>
+      createIssue(RULE_CATALOG.EMPTY_DIR, {
+        id: `empty-dir-${path.join(rootPath, dir)}`,
+        // Empty directories have no content to tell them apart; the baseline matches them by count
+        fingerprintKey: 'empty directory',
+        path: dir,
+        message: 'Directory is empty.'
+      })
+    );
+  }
+};
+
+export const zeroByteFileRule: ProjectRule = {
+  ...RULE_CATALOG.ZERO_BYTE_FILE,
+  scope: 'project',
+  fix: deleteIssuePath,
+  async run({ getFileStats }) {
+    const emptyFiles = (await getFileStats()).filter(({ size }) => size === 0);
+    return emptyFiles.map(({ file }) =>
+      createIssue(RULE_CATALOG.ZERO_BYTE_FILE, {
+        id: `zero-byte-${file}`,
+        // Same for every empty file, so renaming one keeps its fingerprint
+        fingerprintKey: 'empty file',
+        path: file,
+        message: 'File is empty (0 bytes).'
+      })
+    );
+  }
+};
+
+// Unmistakable editor and tool leftovers; name matches such as copy, old or draft stay report-only
+const DISPOSABLE_FILE = /(?:\.bak|\.tmp|~)$/;
+
+export const backupFileRule: ProjectRule = {
+  ...RULE_CATALOG.BACKUP_FILE,
+  scope: 'project',
+  async fix(issue, { getFileIndex }) {
+    if (!issue.path || !DISPOSABLE_FILE.test(issue.path)) return null;
+    // Files only: a directory that matches is never deleted
+    const { files } = await getFileIndex();
+    return files.some(({ file }) => file === issue.path) ? { kind: 'delete', path: issue.path } : null;
+  },
+  async run(context) {
+    // Find backup/temp files (and folders)
+    const backupFiles = await context.matchFiles(context.config.backupPatterns, { includeDirectories: true });
+    const { files } = await context.getFileIndex();
+    const isFile = new Set(files.map(({ file }) => file));
+
+    return Promise.all(backupFiles.map(async file =>
+      createIssue(RULE_CATALOG.BACKUP_FILE, {
+        id: `backup-file-${file}`,
+        // A directory is keyed on the files beneath it, relative to it
+        fingerprintKey: isFile.has(file)
+          ? await getFileContentKey(context, file)
+          : files
+            .filter(entry => entry.file.startsWith(`${file}${path.sep}`))
+            .map(entry => entry.file.slice(file.length + 1))
+            .sort()
+            .join('\n'),
+        path: file,
+        message: 'File appears to be a backup or temporary file.'
+      })
+    ));
+  }
+};
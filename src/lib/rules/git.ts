@@ -0,0 +1,124 @@
+import path from 'path';
+import { isAbortError } from '../abort';
+import { ENV_EXAMPLE_FILES, looksLikeSecretValue, parseEnvFile } from '../env';
+import { execCommand } from '../exec';
+import type { Issue } from '../types';
+import { RULE_CATALOG } from './catalog';
+import { createIssue, getFileContentKey, toError } from './helpers';
+import type { ProjectRule } from './types';
+
+export const uncommittedChangesRule: ProjectRule = {
+  ...RULE_CATALOG.UNCOMMITTED_CHANGES,
+  scope: 'project',
+  async run({ rootPath, log, pathExists, signal }) {
+    // Only when .git exists under scanned directory
+    if (!(await pathExists('.git'))) {
+      log('debug', 'scan', 'Git check skipped', { reason: 'no .git directory in target path' });
+      return [];
+    }
+
+    try {
+      log('info', 'scan', 'Checking git status');
+      const gitStartTime = Date.now();
+      const gitEnv = {
+        ...process.env,
+        GIT_CEILING_DIRECTORIES: rootPath
+      };
+      const { stdout } = await execCommand('git status --porcelain', {
+        cwd: rootPath,
+        env: gitEnv,
+        signal
+      });
+      const gitDuration = Date.now() - gitStartTime;
+      if (!stdout.trim()) {
+        return [];
+      }
+
+      const uncommittedFiles = stdout.trim().split('\n').length;
+      log('info', 'scan', 'Git status check completed', {
+        uncommittedFiles,
+        duration: gitDuration
+      });
+      return [
+        createIssue(RULE_CATALOG.UNCOMMITTED_CHANGES, {
+          id: 'git-dirty-tree',
+          fingerprintKey: 'working-tree',
+          message: `Working tree has ${uncommittedFiles} uncommitted change(s). Commit or stash before deployment.`,
+          snippet: stdout.split('\n').slice(0, 5).join('\n')
+        })
+      ];
+    } catch (error: unknown) {
+      if (isAbortError(error)) throw error;
+      const err = toError(error);
+      log('debug', 'scan', 'Git check skipped', { error: err.message || 'Not a git repo' });
+      return [];
+    }
+  }
+};
+
+// Basenames of files that hold credentials and never belong in a repository
+const SENSITIVE_FILE_NAMES = [
+  /^\.env(?:\..+)?$/,
+  /\.(?:pem|key|p12|pfx)$/i,
+  /^id_(?:rsa|dsa|ecdsa|ed25519)$/,
+  /^(?:.*[-_.])?(?:credentials?|service[-_]?account|client[-_]secrets?)(?:[-_.].*)?\.json$/i,
+  /-adminsdk-.*\.json$/i
+];
+
+// Templates meant to be committed: .env.example, .env.local.sample, ...
+const TEMPLATE_FILE = /\.(?:example|sample|template|dist)$/;
+
+const isSensitiveFile = (file: string) => {
+  const name = path.posix.basename(file);
+  return !ENV_EXAMPLE_FILES.includes(name) && !TEMPLATE_FILE.test(name) && SENSITIVE_FILE_NAMES.some(pattern => pattern.test(name));
+};
+
+const PRIVATE_KEY_BLOCK = /-----BEGIN [A-Z ]*PRIVATE KEY-----/;
+const JSON_STRING_MEMBER = /"([^"\\]+)"\s*:\s*"((?:[^"\\]|\\.)*)"/g;
+
+// Private keys, or .env entries and JSON string members whose values look like real credentials
+function containsSecrets(file: string, content: string): boolean {
+  if (PRIVATE_KEY_BLOCK.test(content)) return true;
+  if (path.posix.basename(file).startsWith('.env')) {
+    return parseEnvFile(content).some(entry => !entry.commented && looksLikeSecretValue(entry.key, entry.value));
+  }
+  return [...content.matchAll(JSON_STRING_MEMBER)].some(([, key, value]) => looksLikeSecretValue(key, value));
+}
+
+export const exposedSecretFileRule: ProjectRule = {
+  ...RULE_CATALOG.EXPOSED_SECRET_FILE,
+  scope: 'project',
+  async run({ rootPath, log, getFileIndex, readFile, hashFile, signal }) {
+    // Tracked ("H" and other tags) plus untracked files that .gitignore does not exclude ("?")
+    let stdout: string;
+    try {
+      ({ stdout } = await execCommand('git ls-files -z -t --cached --others --exclude-standard -- .', { cwd: rootPath, signal }));
+    } catch (error: unknown) {
+      if (isAbortError(error)) throw error;
+      log('debug', 'scan', 'Exposed secret file check skipped', { error: toError(error).message || 'Not a git repo' });
+      return [];
+    }
+
+    // Limited to files the scan sees, so configured ignores apply and deleted files are skipped
+    const scanned = new Set((await getFileIndex()).files.map(({ file }) => file));
+    const issues: Issue[] = [];
+    for (const entry of stdout.split('\0')) {
+      const file = entry.slice(2);
+      if (!file || !scanned.has(file) || !isSensitiveFile(file)) continue;
+      const tracked = !entry.startsWith('?');
+      const content = await readFile(file);
+      const hasSecrets = content !== null && containsSecrets(file, content);
+      issues.push(createIssue(RULE_CATALOG.EXPOSED_SECRET_FILE, {
+        id: `exposed-secret-file-${file}`,
+        fingerprintKey: await getFileContentKey({ hashFile }, file),
+        path: file,
+        severity: hasSecrets ? 'critical' : undefined,
+        message: `${file} ${tracked ? 'is committed to git' : 'is not covered by .gitignore'}${hasSecrets ? ' and contains values that look like real secrets' : ''}.`,
+        suggestedAction: tracked
+          ? `run git rm --cached ${file}, add it to .gitignore and rotate what it contains if it was ever pushed`
+          : 'add it to .gitignore'
+      }));
+    }
+    return issues;
+  }
+};
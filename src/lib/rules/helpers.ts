@@ -0,0 +1,106 @@
+import { computeFingerprint } from '../fingerprint';
+import type { Issue, IssueLocation } from '../types';
+import type { RuleMeta } from './catalog';
+import type { RuleContext, RuleFix } from './types';
+
+type IssueFields = Pick<Issue, 'id' | 'message'> & Partial<Pick<Issue, 'path' | 'location' | 'snippet' | 'severity' | 'suggestedAction'>> & {
+  // Code window (see getCodeWindow), content hash or other stable identity such as a package name.
+  // Never the path: a moved or renamed file must keep its fingerprint.
+  fingerprintKey: string;
+};
+
+/**
+ * Builds an issue with category, type, severity and action filled in from rule metadata
+ */
+export function createIssue(rule: RuleMeta, fields: IssueFields): Issue {
+  return {
+    id: fields.id,
+    fingerprint: computeFingerprint(rule.id, fields.fingerprintKey),
+    category: rule.category,
+    type: rule.id,
+    ...(fields.path !== undefined && { path: fields.path }),
+    ...(fields.location !== undefined && { location: fields.location }),
+    message: fields.message,
+    severity: fields.severity || rule.severity,
+    ...(fields.snippet !== undefined && { snippet: fields.snippet }),
+    suggestedAction: fields.suggestedAction || rule.suggestedAction
+  };
+}
+
+/**
+ * Fingerprint key for findings about a whole file: its content hash, so the finding survives a move or rename
+ */
+export async function getFileContentKey({ hashFile }: Pick<RuleContext, 'hashFile'>, file: string): Promise<string> {
+  // An unreadable file has no content to key on; all of them share one key and the baseline matches them by count
+  return (await hashFile(file)) ?? 'unreadable file';
+}
+
+/**
+ * Fix for findings whose remedy is removing the reported file or directory
+ */
+export const deleteIssuePath: RuleFix = async issue =>
+  issue.path ? { kind: 'delete', path: issue.path } : null;
+
+interface ContentMatch {
+  index: number;
+  text: string;
+  location: IssueLocation;
+}
+
+/**
+ * Returns a function mapping [start, end) offsets in content to line/column ranges
+ */
+export function createLocator(content: string): (start: number, end: number) => IssueLocation {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  const toPosition = (offset: number) => {
+    // Last line start at or before offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+
+  return (start, end) => {
+    const from = toPosition(start);
+    const to = toPosition(Math.max(start, end));
+    return { startLine: from.line, startColumn: from.column, endLine: to.line, endColumn: to.column };
+  };
+}
+
+/**
+ * Every match of pattern in content, with its location
+ */
+export function findMatches(content: string, pattern: RegExp): ContentMatch[] {
+  const matcher = ensureGlobalRegex(pattern);
+  const locate = createLocator(content);
+  const matches: ContentMatch[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = matcher.exec(content)) !== null) {
+    if (match[0].length === 0) {
+      matcher.lastIndex++;
+      continue;
+    }
+    matches.push({ index: match.index, text: match[0], location: locate(match.index, match.index + match[0].length) });
+  }
+  return matches;
+}
+
+export const toError = (error: unknown): Error => {
+  if (error instanceof Error) {
+    return error;
+  }
+  return new Error(typeof error === 'string' ? error : 'Unknown error');
+};
+
+const ensureGlobalRegex = (pattern: RegExp) => {
+  const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+  return new RegExp(pattern.source, flags);
+};
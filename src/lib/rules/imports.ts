@@ -0,0 +1,238 @@
+import path from 'path';
+import { getCodeWindow } from '../fingerprint';
+import { findShortestCycle, findStronglyConnectedComponents, getModuleCandidates, maskCode } from '../module-graph';
+import type { FileMatch, ImportRecord, ModuleGraph } from '../module-graph';
+import { RULE_CATALOG } from './catalog';
+import type { RuleMeta } from './catalog';
+import { createIssue, createLocator } from './helpers';
+import type { Issue } from '../types';
+import type { ProjectRule, RuleContext } from './types';
+
+// Type-only imports are erased at compile time and import() runs lazily, so neither can leave a binding undefined during module initialisation
+const isRuntimeImport = (record: ImportRecord) => !record.typeOnly && record.kind !== 'dynamic';
+
+const getEdges = (graph: ModuleGraph, members: Set<string>, runtimeOnly: boolean) => (file: string) => [
+  ...new Set(
+    (graph.modules.get(file)?.imports || [])
+      .filter(record => record.resolved && members.has(record.resolved) && (!runtimeOnly || isRuntimeImport(record)))
+      .map(record => record.resolved as string)
+  )
+];
+
+export const circularImportRule: ProjectRule = {
+  ...RULE_CATALOG.CIRCULAR_IMPORT,
+  scope: 'project',
+  async run({ getSourceFiles, getModuleGraph }) {
+    const [sources, graph] = await Promise.all([getSourceFiles(), getModuleGraph()]);
+    const contents = new Map(sources.map(({ file, content }) => [file.replace(/\\/g, '/'), content]));
+    const files = [...graph.modules.keys()].sort();
+    const allFiles = new Set(files);
+    const issues: Issue[] = [];
+
+    for (const component of findStronglyConnectedComponents(files, getEdges(graph, allFiles, false))) {
+      const members = new Set(component);
+      const runtimeComponents = findStronglyConnectedComponents(component, getEdges(graph, members, true));
+      const isRuntime = runtimeComponents.length > 0;
+
+      // Report the shortest chain that shows the problem, starting from the first file alphabetically
+      const start = isRuntime ? runtimeComponents[0][0] : component[0];
+      const chain = findShortestCycle(start, getEdges(graph, isRuntime ? new Set(runtimeComponents[0]) : members, isRuntime));
+
+      const findImport = (from: string, to: string) => graph.modules.get(from)?.imports.find(record =>
+        record.resolved === to && (!isRuntime || isRuntimeImport(record))
+      );
+      const firstImport = findImport(start, chain[1]);
+      const content = contents.get(start);
+      const location = firstImport && content !== undefined
+        ? createLocator(content)(firstImport.index, firstImport.index + firstImport.specifier.length + 2)
+        : undefined;
+
+      // The import statements that close the cycle, sorted so the key does not depend on which file the chain starts from
+      const cycleImports = chain.slice(0, -1).flatMap((file, i) => {
+        const record = findImport(file, chain[i + 1]);
+        const fileContent = contents.get(file);
+        return record && fileContent !== undefined ? [getCodeWindow(fileContent, record.index, 0)] : [];
+      }).sort();
+
+      const others = component.filter(file => !chain.includes(file));
+      issues.push(createIssue(RULE_CATALOG.CIRCULAR_IMPORT, {
+        id: `circular-import-${component.join('|')}`,
+        fingerprintKey: cycleImports.join('\n'),
+        path: start,
+        ...(location && { location }),
+        severity: isRuntime ? 'warning' : 'info',
+        message: `${isRuntime ? 'Circular import' : 'Type-only import cycle'}: ${chain.join(' -> ')}`,
+        snippet: others.length > 0
+          ? `${component.length} files form this cycle group; also involved: ${others.join(', ')}`
+          : undefined
+      }));
+    }
+
+    return issues;
+  }
+};
+
+interface ReferenceCheck {
+  file: string;
+  content: string;
+  kind: 'import' | 'asset';
+  // Specifier or URL as written
+  reference: string;
+  // Offset and length of the reference in the file
+  index: number;
+  length: number;
+  // Project-relative path the reference points at
+  target: string;
+  // Paths that would satisfy the reference
+  candidates: string[];
+  match?: FileMatch;
+}
+
+const STYLESHEET_EXTENSIONS = ['.css', '.scss', '.sass', '.less'];
+const PUBLIC_ASSET_ATTRIBUTE_REGEX = /\b(?:src|href|poster)\s*=\s*\{?\s*(['"])(\/[^'"\s?#]+\.(?:png|jpe?g|gif|svg|webp|avif|ico|bmp|mp4|webm|mp3|wav|woff2?|ttf|otf|pdf))\1/gi;
+const IMPORT_META_URL_REGEX = /\bnew\s+URL\s*\(\s*(['"])/g;
+const CSS_URL_REGEX = /url\(\s*(['"]?)([^'")\s]+)\1\s*\)/g;
+const CSS_IMPORT_REGEX = /@import\s+(['"])([^'"]+)\1/g;
+const NON_FILE_URL = /^(?:[a-z][\w+.-]*:|\/\/|#|~)|[${}]|var\(/i;
+
+const blankCssComments = (content: string) =>
+  content.replace(/\/\*[\s\S]*?\*\//g, comment => comment.replace(/[^\n]/g, ' '));
+
+// Both rules use the same pass over every import and asset reference
+const referenceCache = new WeakMap<RuleContext, Promise<ReferenceCheck[]>>();
+
+function collectReferences(context: RuleContext): Promise<ReferenceCheck[]> {
+  let cached = referenceCache.get(context);
+  if (!cached) {
+    cached = checkReferences(context);
+    referenceCache.set(context, cached);
+  }
+  return cached;
+}
+
+async function checkReferences({ getSourceFiles, getAssetReferenceFiles, getModuleGraph, pathExists }: RuleContext) {
+  const [sources, assetReferenceFiles, graph] = await Promise.all([getSourceFiles(), getAssetReferenceFiles(), getModuleGraph()]);
+  const hasPublicDir = await pathExists('public');
+  const checks: ReferenceCheck[] = [];
+
+  const addAsset = (file: string, content: string, reference: string, index: number, target: string) => {
+    const normalized = path.posix.normalize(target);
+    if (normalized.startsWith('../')) return;
+    checks.push({
+      file, content, kind: 'asset', reference, index, length: reference.length,
+      target: normalized, candidates: [normalized], match: graph.lookupFile([normalized])
+    });
+  };
+
+  for (const { file: sourceFile, content } of sources) {
+    const file = sourceFile.replace(/\\/g, '/');
+    const node = graph.modules.get(file);
+    if (!node) continue;
+
+    for (const record of node.imports) {
+      if (record.external) continue;
+      const resolution = graph.resolve(file, record.specifier);
+      if (!resolution.target) continue;
+      checks.push({
+        file, content, kind: 'import', reference: record.specifier,
+        index: record.index, length: record.specifier.length + 2,
+        target: resolution.target,
+        candidates: getModuleCandidates(resolution.target),
+        ...(resolution.resolved && { match: { file: resolution.resolved, caseMismatch: Boolean(resolution.caseMismatch) } })
+      });
+    }
+
+    const masked = maskCode(content);
+    for (const match of masked.matchAll(IMPORT_META_URL_REGEX)) {
+      const quoteIndex = match.index + match[0].length - 1;
+      const end = content.indexOf(content[quoteIndex], quoteIndex + 1);
+      const reference = content.slice(quoteIndex + 1, end);
+      if (end !== -1 && reference.startsWith('.') && /^\s*,\s*import\.meta\.url/.test(masked.slice(end + 1))) {
+        addAsset(file, content, reference, quoteIndex + 1, path.posix.join(path.posix.dirname(file), reference));
+      }
+    }
+
+    if (hasPublicDir) {
+      for (const match of content.matchAll(PUBLIC_ASSET_ATTRIBUTE_REGEX)) {
+        const valueIndex = match.index + match[0].lastIndexOf(match[2]);
+        // Quote survives masking only outside comments
+        if (masked[valueIndex - 1] !== match[1]) continue;
+        addAsset(file, content, match[2], valueIndex, `public${match[2]}`);
+      }
+    }
+  }
+
+  for (const { file: stylesheet, content: rawContent } of assetReferenceFiles) {
+    if (!STYLESHEET_EXTENSIONS.includes(path.extname(stylesheet))) continue;
+    const file = stylesheet.replace(/\\/g, '/');
+    const content = blankCssComments(rawContent);
+    const resolveUrl = (url: string) =>
+      url.startsWith('/') ? (hasPublicDir ? `public${url}` : null) : path.posix.join(path.posix.dirname(file), url);
+
+    for (const match of content.matchAll(CSS_URL_REGEX)) {
+      const url = match[2].replace(/[?#].*$/, '');
+      if (!url || NON_FILE_URL.test(match[2])) continue;
+      const target = resolveUrl(url);
+      if (target) addAsset(file, rawContent, match[2], match.index + match[0].indexOf(match[2]), target);
+    }
+    for (const match of content.matchAll(CSS_IMPORT_REGEX)) {
+      // Bare @import specifiers are packages (e.g. "tailwindcss")
+      if (!match[2].startsWith('.') && !match[2].startsWith('/')) continue;
+      const target = resolveUrl(match[2]);
+      if (target) addAsset(file, rawContent, match[2], match.index + match[0].indexOf(match[2]), target);
+    }
+  }
+
+  return checks;
+}
+
+const referenceLabel = (check: ReferenceCheck) =>
+  check.kind === 'import' ? `Import "${check.reference}"` : `Asset reference "${check.reference}"`;
+
+const createReferenceIssue = (rule: RuleMeta, idPrefix: string, check: ReferenceCheck, message: string) => {
+  const location = createLocator(check.content)(check.index, check.index + check.length);
+  return createIssue(rule, {
+    id: `${idPrefix}-${check.file}:${location.startLine}:${location.startColumn}`,
+    fingerprintKey: `${check.reference}\n${getCodeWindow(check.content, check.index, 0)}`,
+    path: check.file,
+    location,
+    message
+  });
+};
+
+export const brokenImportRule: ProjectRule = {
+  ...RULE_CATALOG.BROKEN_IMPORT,
+  scope: 'project',
+  async run(context) {
+    const issues: Issue[] = [];
+    for (const check of await collectReferences(context)) {
+      if (check.match) continue;
+      // Files excluded from the scan (ignore globs, build output) still exist on disk
+      const existsOnDisk = await Promise.all(check.candidates.map(candidate => context.pathExists(candidate)));
+      if (existsOnDisk.some(Boolean)) continue;
+
+      issues.push(createReferenceIssue(
+        RULE_CATALOG.BROKEN_IMPORT,
+        'broken-import',
+        check,
+        `${referenceLabel(check)} points to ${check.target}, which does not exist.`
+      ));
+    }
+    return issues;
+  }
+};
+
+export const importCaseMismatchRule: ProjectRule = {
+  ...RULE_CATALOG.IMPORT_CASE_MISMATCH,
+  scope: 'project',
+  async run(context) {
+    return (await collectReferences(context))
+      .filter(check => check.match?.caseMismatch)
+      .map(check => createReferenceIssue(
+        RULE_CATALOG.IMPORT_CASE_MISMATCH,
+        'import-case',
+        check,
+        `${referenceLabel(check)} differs in case from ${check.match?.file}; it only resolves on case-insensitive file systems.`
+      ));
+  }
+};
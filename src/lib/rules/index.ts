@@ -0,0 +1,97 @@
+import { uncommittedChangesRule, exposedSecretFileRule } from './git';
+import { emptyDirRule, zeroByteFileRule, backupFileRule } from './filesystem';
+import { orphanAssetRule } from './assets';
+import {
+  unusedDependencyRule,
+  unusedDevDependencyRule,
+  missingDependencyRule,
+  unpinnedVersionRule
+} from './dependencies';
+import { viralLicenseRule } from './licenses';
+import { orphanModuleRule, unusedExportRule } from './orphans';
+import { brokenImportRule, circularImportRule, importCaseMismatchRule } from './imports';
+import { hardcodedSecretRule } from './security';
+import { consoleLogRule, todoCommentRule } from './code-quality';
+import { largeFileRule, syncIoRule } from './performance';
+import { missingMetadataRule } from './seo';
+import { missingAltRule, missingLabelRule } from './accessibility';
+import {
+  missingEnvVarRule,
+  envExampleMissingVarRule,
+  envExampleUnusedVarRule,
+  envExampleSecretRule,
+  unusedEnvVarRule,
+  publicEnvSecretRule
+} from './env';
+import { buildFailureRule } from './build';
+import type { Rule } from './types';
+
+export type { Rule, ProjectRule, FileRule, RuleContext, FixOperation } from './types';
+export { RULE_CATALOG } from './catalog';
+export { createRuleContext } from './context';
+export { createIssue } from './helpers';
+
+// Registry order is execution order; slow checks (depcheck, tsc) stay towards the end
+const registry = new Map<string, Rule>();
+
+/**
+ * Adds a rule to the registry. Rule ids must be unique.
+ */
+export function registerRule(rule: Rule): void {
+  if (registry.has(rule.id)) {
+    throw new Error(`VALIDATION_ERROR: Rule "${rule.id}" is already registered`);
+  }
+  registry.set(rule.id, rule);
+}
+
+export function unregisterRule(id: string): boolean {
+  return registry.delete(id);
+}
+
+export function getRule(id: string): Rule | undefined {
+  return registry.get(id);
+}
+
+export function getRules(): Rule[] {
+  return [...registry.values()];
+}
+
+const BUILT_IN_RULES: Rule[] = [
+  uncommittedChangesRule,
+  emptyDirRule,
+  zeroByteFileRule,
+  largeFileRule,
+  backupFileRule,
+  orphanAssetRule,
+  unusedDependencyRule,
+  unusedDevDependencyRule,
+  missingDependencyRule,
+  unpinnedVersionRule,
+  viralLicenseRule,
+  orphanModuleRule,
+  unusedExportRule,
+  circularImportRule,
+  hardcodedSecretRule,
+  exposedSecretFileRule,
+  consoleLogRule,
+  todoCommentRule,
+  syncIoRule,
+  missingMetadataRule,
+  missingAltRule,
+  missingLabelRule,
+  missingEnvVarRule,
+  envExampleMissingVarRule,
+  envExampleUnusedVarRule,
+  envExampleSecretRule,
+  unusedEnvVarRule,
+  publicEnvSecretRule,
+  brokenImportRule,
+  importCaseMismatchRule,
+  buildFailureRule
+];
+BUILT_IN_RULES.forEach(registerRule);
+
+/**
+ * Built-in rules exist in every thread that loads this module; rules registered at runtime only in the one that added them
+ */
+export const isBuiltInRule = (rule: Rule) => BUILT_IN_RULES.includes(rule);
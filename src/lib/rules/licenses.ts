@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import { RULE_CATALOG } from './catalog';
+import { createIssue } from './helpers';
+import type { ProjectRule } from './types';
+import type { Issue } from '../types';
+
+const VIRAL_LICENSES = ['GPL', 'AGPL', 'LGPL'];
+
+async function collectNodeModulePackages(nodeModulesPath: string): Promise<string[]> {
+  try {
+    const entries = await fs.promises.readdir(nodeModulesPath, { withFileTypes: true });
+    const packages: string[] = [];
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
+
+      if (entry.name.startsWith('@')) {
+        const scopePath = path.join(nodeModulesPath, entry.name);
+        try {
+          const scopedEntries = await fs.promises.readdir(scopePath, { withFileTypes: true });
+          for (const scoped of scopedEntries) {
+            if (scoped.isDirectory() && !scoped.name.startsWith('.')) {
+              packages.push(path.join(entry.name, scoped.name));
+            }
+          }
+        } catch {
+          continue;
+        }
+      } else {
+        packages.push(entry.name);
+      }
+    }
+
+    return packages;
+  } catch {
+    return [];
+  }
+}
+
+export const viralLicenseRule: ProjectRule = {
+  ...RULE_CATALOG.VIRAL_LICENSE,
+  scope: 'project',
+  // Installed packages follow the lockfile, once there are any: a run before npm ci must not stand in for one after
+  cacheKey: async ({ getDependencyHash, pathExists }) =>
+    `${await getDependencyHash()}:${(await pathExists('node_modules')) ? 'installed' : 'not-installed'}`,
+  async run({ rootPath, config, pathExists }) {
+    if (!(await pathExists('node_modules'))) {
+      // node_modules doesn't exist, skip
+      return [];
+    }
+
+    const nodeModulesPath = path.join(rootPath, 'node_modules');
+    const packages = await collectNodeModulePackages(nodeModulesPath);
+
+    // Process packages in parallel
+    const licenseChecks = packages.map(async (pkg): Promise<Issue | null> => {
+      const normalizedPkgName = pkg.replace(/\\/g, '/');
+      try {
+        const pkgJsonContent = await fs.promises.readFile(path.join(nodeModulesPath, pkg, 'package.json'), 'utf-8');
+        const license = JSON.parse(pkgJsonContent).license || '';
+        if (typeof license !== 'string' || !VIRAL_LICENSES.some(vl => license.toUpperCase().includes(vl))) {
+          return null;
+        }
+        if (config.allowlists.licenses.some(prefix => normalizedPkgName.startsWith(prefix))) {
+          return null;
+        }
+        return createIssue(RULE_CATALOG.VIRAL_LICENSE, {
+          id: `viral-license-${normalizedPkgName}`,
+          fingerprintKey: normalizedPkgName,
+          message: `Package "${normalizedPkgName}" uses viral license: ${license}. May require open-sourcing your code.`
+        });
+      } catch {
+        return null;
+      }
+    });
+
+    const licenseIssues = await Promise.all(licenseChecks);
+    return licenseIssues.filter((issue): issue is Issue => issue !== null);
+  }
+};
@@ -0,0 +1,78 @@
+import path from 'path';
+import { getCodeWindow } from '../fingerprint';
+import { collectUsedExports, isDeclarationFile } from '../module-graph';
+import { RULE_CATALOG } from './catalog';
+import { createIssue, createLocator } from './helpers';
+import type { ProjectRule } from './types';
+
+// Importers listed in the reason before truncating
+const MAX_LISTED_IMPORTERS = 3;
+
+export const orphanModuleRule: ProjectRule = {
+  ...RULE_CATALOG.ORPHAN_MODULE,
+  scope: 'project',
+  async run({ getSourceFiles, getModuleGraph }) {
+    const [sources, graph] = await Promise.all([getSourceFiles(), getModuleGraph()]);
+
+    return sources
+      .map(({ file, content }) => ({ file: file.replace(/\\/g, '/'), content }))
+      .filter(({ file }) => graph.modules.has(file) && !graph.reachable.has(file) && !isDeclarationFile(file))
+      .map(({ file, content }) => {
+        const importers = graph.modules.get(file)?.importedBy || [];
+        const listed = importers.slice(0, MAX_LISTED_IMPORTERS).join(', ');
+        const more = importers.length > MAX_LISTED_IMPORTERS ? ` and ${importers.length - MAX_LISTED_IMPORTERS} more` : '';
+        const reason = importers.length === 0
+          ? 'Not imported by any module and not an entry point.'
+          : `Only imported by modules that are themselves unreachable: ${listed}${more}.`;
+
+        return createIssue(RULE_CATALOG.ORPHAN_MODULE, {
+          id: `orphan-${file}`,
+          // The whole module: whitespace-only edits keep it, any other change makes it a new finding
+          fingerprintKey: content.replace(/\s+/g, ' ').trim(),
+          path: file,
+          message: `Orphan module: "${path.basename(file)}" is not reachable from any entry point`,
+          snippet: reason
+        });
+      });
+  }
+};
+
+export const unusedExportRule: ProjectRule = {
+  ...RULE_CATALOG.UNUSED_EXPORT,
+  scope: 'project',
+  async run({ getSourceFiles, getModuleGraph }) {
+    const [sources, graph] = await Promise.all([getSourceFiles(), getModuleGraph()]);
+
+    // Entry points are used from outside the graph: by name for framework files, entirely for package entries
+    const seeds: Array<[string, string]> = [];
+    for (const [file, entry] of graph.entryPoints) {
+      for (const name of entry.frameworkExports || ['*']) seeds.push([file, name]);
+    }
+    const used = collectUsedExports(graph, seeds);
+
+    return sources.flatMap(({ file: sourceFile, content }) => {
+      const file = sourceFile.replace(/\\/g, '/');
+      const node = graph.modules.get(file);
+      // Unreachable files are reported whole by ORPHAN_MODULE
+      if (!node || !graph.reachable.has(file)) return [];
+
+      const usedNames = used.get(file) || new Set<string>();
+      if (usedNames.has('*')) return [];
+
+      const locate = createLocator(content);
+      return node.exports
+        .filter(record => record.name !== '*' && !usedNames.has(record.name))
+        .map(record => {
+          const location = locate(record.index, record.index + record.name.length);
+          const label = record.name === 'default' ? 'Default export' : `${record.typeOnly ? 'Exported type' : 'Export'} "${record.name}"`;
+          return createIssue(RULE_CATALOG.UNUSED_EXPORT, {
+            id: `unused-export-${file}:${record.name}`,
+            fingerprintKey: `${record.name}\n${getCodeWindow(content, record.index, 0)}`,
+            path: file,
+            location,
+            message: `${label} is not imported by any module.`
+          });
+        });
+    });
+  }
+};
@@ -0,0 +1,39 @@
+import { RULE_CATALOG } from './catalog';
+import { getCodeWindow } from '../fingerprint';
+import { createIssue, findMatches, getFileContentKey } from './helpers';
+import type { FileRule, ProjectRule } from './types';
+
+export const largeFileRule: ProjectRule = {
+  ...RULE_CATALOG.LARGE_FILE,
+  scope: 'project',
+  async run(context) {
+    const largeFiles = (await context.getFileStats()).filter(({ size }) => size > context.config.thresholds.largeFileBytes);
+    return Promise.all(largeFiles.map(async ({ file, size }) =>
+      createIssue(RULE_CATALOG.LARGE_FILE, {
+        id: `large-file-${file}`,
+        fingerprintKey: await getFileContentKey(context, file),
+        path: file,
+        message: `File is too large (${(size / 1024 / 1024).toFixed(2)} MB). Consider optimizing or lazy loading.`
+      })
+    ));
+  }
+};
+
+export const syncIoRule: FileRule = {
+  ...RULE_CATALOG.SYNC_IO,
+  scope: 'file',
+  run({ file, content, isAnalyzerSource }) {
+    if (isAnalyzerSource) {
+      return [];
+    }
+    return findMatches(content, /\b(?:readFileSync|writeFileSync|readdirSync)\b/).map(({ index, text, location }) =>
+      createIssue(RULE_CATALOG.SYNC_IO, {
+        id: `sync-io-${file}:${location.startLine}:${location.startColumn}`,
+        fingerprintKey: getCodeWindow(content, index),
+        path: file,
+        location,
+        message: `Synchronous I/O operation (${text}) detected. Use async alternatives for better performance.`
+      })
+    );
+  }
+};
@@ -0,0 +1,45 @@
+import { RULE_CATALOG } from './catalog';
+import { getCodeWindow } from '../fingerprint';
+import { createIssue, findMatches } from './helpers';
+import type { FileRule } from './types';
+import type { Issue } from '../types';
+
+const SECRET_PATTERNS = [
+  { regex: /AWS_ACCESS_KEY_ID\s*=\s*['"][A-Z0-9]{20}['"]/, name: 'AWS Access Key' },
+  { regex: /Bearer\s+[a-zA-Z0-9\-\._~\+\/]+=*/, name: 'Bearer Token' },
+  { regex: /ghp_[a-zA-Z0-9]{36}/, name: 'GitHub Personal Access Token' },
+  { regex: /sk_live_[0-9a-zA-Z]{24}/, name: 'Stripe Secret Key' },
+  { regex: /AIza[0-9A-Za-z-_]{35}/, name: 'Google API Key' }
+];
+
+export const hardcodedSecretRule: FileRule = {
+  ...RULE_CATALOG.HARDCODED_SECRET,
+  scope: 'file',
+  run({ file, content, isAnalyzerSource }) {
+    if (isAnalyzerSource) return [];
+    const issues: Issue[] = [];
+
+    for (const { regex, name } of SECRET_PATTERNS) {
+      for (const { index, text, location } of findMatches(content, regex)) {
+        if (name === 'Bearer Token') {
+          const tokenPart = text.replace(/Bearer\s+/i, '').trim();
+          if (tokenPart.length < 16) {
+            continue;
+          }
+        }
+
+        issues.push(createIssue(RULE_CATALOG.HARDCODED_SECRET, {
+          id: `secret-${file}:${location.startLine}:${location.startColumn}`,
+          // The secret itself is replaced so the fingerprint stays stable when the key is rotated
+          fingerprintKey: getCodeWindow(content, index).split(text).join(`<${name}>`),
+          path: file,
+          location,
+          message: `Potential hardcoded secret found: ${name}`,
+          snippet: '***REDACTED***'
+        }));
+      }
+    }
+
+    return issues;
+  }
+};
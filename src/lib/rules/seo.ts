@@ -0,0 +1,35 @@
+import { getCodeWindow } from '../fingerprint';
+import { RULE_CATALOG } from './catalog';
+import { createIssue, createLocator } from './helpers';
+import type { FileRule } from './types';
+
+export const missingMetadataRule: FileRule = {
+  ...RULE_CATALOG.MISSING_METADATA,
+  scope: 'file',
+  run({ file, content }) {
+    // Next.js app router pages and layouts only
+    if (!(file.includes('page.tsx') || file.includes('layout.tsx')) || !file.includes('app/')) {
+      return [];
+    }
+    if (content.includes('export const metadata') || content.includes('generateMetadata')) {
+      return [];
+    }
+    // Client components cannot export metadata; it comes from the nearest server layout
+    if (/^\s*['"]use client['"]/.test(content)) {
+      return [];
+    }
+    // Point at the default export (the page or layout component), or the first line when there is none
+    const exportMatch = /export\s+default\b/.exec(content);
+    const start = exportMatch ? exportMatch.index : 0;
+    const end = exportMatch ? start + exportMatch[0].length : content.split('\n')[0].length;
+    return [
+      createIssue(RULE_CATALOG.MISSING_METADATA, {
+        id: `missing-metadata-${file}`,
+        fingerprintKey: getCodeWindow(content, start),
+        path: file,
+        location: createLocator(content)(start, end),
+        message: 'Page/Layout missing metadata export. Add title and description for SEO.'
+      })
+    ];
+  }
+};
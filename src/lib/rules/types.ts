@@ -0,0 +1,105 @@
+import type { EnvUsage } from '../env';
+import type { Lockfile } from '../lockfile';
+import type { ModuleGraph } from '../module-graph';
+import type { Issue, LoggerFunction, SanityGateConfig } from '../types';
+import type { FileIndex, MatchOptions } from '../vfs';
+import type { RuleMeta } from './catalog';
+
+export interface SourceFile {
+  file: string;
+  content: string;
+}
+
+export interface FileStat {
+  file: string;
+  size: number;
+}
+
+export interface DepcheckResult {
+  dependencies: string[];
+  devDependencies: string[];
+  missing: Record<string, string[]>;
+}
+
+export interface PackageJson {
+  name?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+/**
+ * Shared, lazily computed project data handed to project-level rules.
+ * Every accessor is memoized or served from the shared file layer, so rules can call them freely.
+ */
+export interface RuleContext {
+  rootPath: string;
+  log: LoggerFunction;
+  config: SanityGateConfig;
+  globIgnore: string[];
+  // Aborts when the scan is cancelled; rules pass it to child processes and long-running work
+  signal?: AbortSignal;
+  // Checks the disk, so paths excluded from the scan are found too
+  pathExists(relativePath: string): Promise<boolean>;
+  // Every file and directory from the single project walk, dotfiles included
+  getFileIndex(): Promise<FileIndex>;
+  // Text content through the shared file cache; null for binary, oversized and unreadable files
+  readFile(relativePath: string): Promise<string | null>;
+  // sha256 of the raw bytes, oversized and binary files included; null when unreadable
+  hashFile(relativePath: string): Promise<string | null>;
+  // Files matching globs (relative to the root, with the scan's ignores applied)
+  matchFiles(patterns: string | string[], options?: MatchOptions): Promise<string[]>;
+  // Files and sizes outside dot directories
+  listFiles(): Promise<string[]>;
+  getFileStats(): Promise<FileStat[]>;
+  getSourceFiles(): Promise<SourceFile[]>;
+  getAssetReferenceFiles(): Promise<SourceFile[]>;
+  getEnvFiles(): Promise<SourceFile[]>;
+  // Environment variables read by source files, with the files reading each
+  getEnvUsage(): Promise<EnvUsage>;
+  readPackageJson(): Promise<PackageJson | null>;
+  // package-lock.json, npm-shrinkwrap.json, pnpm-lock.yaml or yarn.lock; null when none is readable
+  getLockfile(): Promise<Lockfile | null>;
+  // Rejects with DEPCHECK_ERROR when depcheck fails or times out, so the failed run is not cached as clean
+  runDepcheck(): Promise<DepcheckResult>;
+  getModuleGraph(): Promise<ModuleGraph>;
+  // Content hashes for cache keys: package.json plus lockfile, and every code file plus tsconfig/jsconfig
+  getDependencyHash(): Promise<string>;
+  getCodeHash(): Promise<string>;
+}
+
+/**
+ * Input for file-level rules, which run once per source file in the content-analysis pass.
+ */
+interface FileContext extends SourceFile {
+  rootPath: string;
+  // True for Sanity Gate's own analyzer sources, whose pattern literals would match themselves
+  isAnalyzerSource: boolean;
+}
+
+/**
+ * A change that resolves an issue, applied by fixProject.
+ * Edits are content transforms so that several fixes to one file (e.g. package.json) compose.
+ */
+export type FixOperation =
+  | { kind: 'delete'; path: string }
+  | { kind: 'edit'; path: string; description: string; apply(content: string): string };
+
+// Returns null when this particular finding has no safe mechanical fix
+export type RuleFix = (issue: Issue, context: RuleContext) => Promise<FixOperation | null>;
+
+export interface ProjectRule extends RuleMeta {
+  scope: 'project';
+  run(context: RuleContext): Promise<Issue[]>;
+  // Key covering every input of the rule; when set, results are reused from the on-disk cache while it is unchanged
+  cacheKey?(context: RuleContext): Promise<string>;
+  fix?: RuleFix;
+}
+
+export interface FileRule extends RuleMeta {
+  scope: 'file';
+  run(context: FileContext): Issue[];
+  fix?: RuleFix;
+}
+
+export type Rule = ProjectRule | FileRule;
@@ -1,149 +1,212 @@
 import fs from 'fs';
 import path from 'path';
-import { glob } from 'glob';
-import depcheck from 'depcheck';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
-
-// Shared glob ignore patterns so nested project artifacts like node_modules are skipped everywhere
-const DEFAULT_GLOB_IGNORE = [
-  'node_modules/**',
-  '**/node_modules/**',
-  '.git/**',
-  '**/.git/**',
-  '.next/**',
-  '**/.next/**',
-  'dist/**',
-  '**/dist/**',
-  'build/**',
-  '**/build/**'
-];
-
-const LICENSE_ALLOWLIST_PREFIXES = ['@img/sharp-'];
-
-// Types for our report
-export type IssueSeverity = 'info' | 'warning' | 'error' | 'critical';
-
-export interface Issue {
-  id: string;
-  category: 'filesystem' | 'orphans' | 'dependencies' | 'build' | 'assets' | 'security' | 'code-quality' | 'performance' | 'env' | 'git' | 'seo' | 'accessibility' | 'licenses';
-  type: string;
-  path?: string;
-  message: string;
-  severity: IssueSeverity;
-  snippet?: string;
-  suggestedAction?: string;
+import { throwIfAborted } from './abort';
+import { analyzeFiles } from './analysis';
+import type { AnalysisFile } from './analysis';
+import { applyBaseline, loadBaseline } from './baseline';
+import { hashContent, loadScanCache } from './cache';
+import type { ScanCache } from './cache';
+import { loadConfig } from './config';
+import { disambiguateFingerprints } from './fingerprint';
+import { computeHealthScore } from './health';
+import { createIssue, createRuleContext, getRules, RULE_CATALOG } from './rules';
+import type { FileRule, ProjectRule, Rule, RuleContext } from './rules';
+import { toError } from './rules/helpers';
+import { applySuppressions, parseSuppressions, SUPPRESSION_RULE_IDS } from './suppressions';
+import type { SuppressionDirective } from './suppressions';
+import type {
+  Issue,
+  IssueCategory,
+  IssueCountsByCategory,
+  LoggerFunction,
+  ProgressListener,
+  ScanPhase,
+  ScanProgressEvent,
+  ScanReport,
+  SuppressedIssue
+} from './types';
+
+export type {
+  Issue,
+  IssueCategory,
+  ScanReport,
+  ScanProgressEvent,
+  StoredReportSummary,
+  HealthScore
+} from './types';
+
+export interface ScanOptions {
+  // Rules to run instead of the registry (e.g. to test a rule in isolation)
+  rules?: Rule[];
+  // Rule ids to skip, in addition to rules turned off in the project config
+  disabledRules?: string[];
+  // Explicit config file instead of discovering one in the scanned root
+  configPath?: string;
+  // Compare issues against .sanity-gate-baseline.json when present (default true)
+  useBaseline?: boolean;
+  // Reuse and update results in .sanity-gate/cache (default true)
+  useCache?: boolean;
+  // Worker threads for content analysis (default: CPU count)
+  concurrency?: number;
+  // Receives phase, file and issue-count updates while the scan runs
+  onProgress?: ProgressListener;
+  // Cancels the scan: file walking and analysis stop, git/tsc child processes are killed,
+  // and scanProject rejects with a SCAN_ABORTED error
+  signal?: AbortSignal;
 }
 
-export interface ScanReport {
-  project: string;
-  timestamp: string;
-  issues: Issue[];
-  stats: {
-    filesScanned: number;
-    orphansFound: number;
-    unusedDeps: number;
-  };
-  rootPath?: string;
-  rootSignature?: string;
+interface ContentAnalysisOptions {
+  cache: ScanCache | null;
+  concurrency?: number;
+  signal?: AbortSignal;
+  onFilesProcessed(processed: number, total: number): void;
 }
 
-// Optional logger function (can be overridden)
-type LogPayload = Record<string, unknown>;
-type LoggerFunction = (level: string, category: string, message: string, data?: LogPayload) => void;
-
-const toError = (error: unknown): Error => {
-  if (error instanceof Error) {
-    return error;
-  }
-  return new Error(typeof error === 'string' ? error : 'Unknown error');
+// Sanity Gate's own rule sources contain the patterns they look for
+const isAnalyzerSource = (file: string) => {
+  const normalizedFilePath = file.replace(/\\/g, '/');
+  return normalizedFilePath.endsWith('src/lib/scan.ts') || normalizedFilePath.includes('src/lib/rules/');
 };
 
-// Helper to recursively find empty directories
-async function findEmptyDirs(dir: string): Promise<string[]> {
-  const IGNORED_DIRS = new Set(['node_modules', '.git', '.next', 'dist', 'build']);
-  const emptyDirectories: string[] = [];
-
-  const traverse = async (currentDir: string): Promise<boolean> => {
-    let entries: fs.Dirent[];
-    try {
-      entries = await fs.promises.readdir(currentDir, { withFileTypes: true });
-    } catch {
-      return false;
+/**
+ * Runs every file rule against each source file, reusing cached results for unchanged files
+ */
+async function runContentAnalysis(
+  context: RuleContext,
+  fileRules: FileRule[],
+  { cache, concurrency, signal, onFilesProcessed }: ContentAnalysisOptions
+): Promise<Issue[]> {
+  if (fileRules.length === 0) return [];
+
+  const sources = await context.getSourceFiles();
+  const ruleIds = fileRules.map(rule => rule.id);
+  const issuesByFile = new Map<string, Issue[]>();
+  const hashes = new Map<string, string>();
+  const pending: AnalysisFile[] = [];
+
+  for (const { file, content } of sources) {
+    const hash = cache ? hashContent(content) : '';
+    const cached = cache?.getFileIssues(file, hash, ruleIds);
+    if (cached) {
+      issuesByFile.set(file, cached);
+    } else {
+      hashes.set(file, hash);
+      pending.push({ file, content, isAnalyzerSource: isAnalyzerSource(file) });
     }
+  }
 
-    if (entries.length === 0) {
-      emptyDirectories.push(currentDir);
-      return true;
+  const cachedCount = sources.length - pending.length;
+  onFilesProcessed(cachedCount, sources.length);
+  const analyses = await analyzeFiles(context.rootPath, fileRules, pending, {
+    concurrency,
+    log: context.log,
+    signal,
+    onProgress: processed => onFilesProcessed(cachedCount + processed, sources.length)
+  });
+  for (const { file, issuesByRule, errors } of analyses) {
+    for (const error of errors) {
+      context.log('error', 'scan', 'Rule failed', { rule: error.rule, file, error: error.message });
     }
+    // A failed rule is retried next time rather than cached as clean
+    if (errors.length === 0) cache?.setFileIssues(file, hashes.get(file) || '', issuesByRule);
+    issuesByFile.set(file, Object.values(issuesByRule).flat());
+  }
 
-    let hasContent = false;
+  return sources.flatMap(({ file }) => issuesByFile.get(file) || []);
+}
 
-    for (const entry of entries) {
-      if (IGNORED_DIRS.has(entry.name)) continue;
+// Omit over each member of a union, keeping the union discriminated
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
 
-      const fullPath = path.join(currentDir, entry.name);
-      if (entry.isDirectory()) {
-        const subdirEmpty = await traverse(fullPath);
-        if (!subdirEmpty) {
-          hasContent = true;
-        }
-      } else {
-        hasContent = true;
-      }
-    }
+interface PhaseStep {
+  id: string;
+  label: string;
+  categories: IssueCategory[];
+  // Unset for the shared content-analysis pass
+  rule?: ProjectRule;
+}
 
-    if (!hasContent) {
-      emptyDirectories.push(currentDir);
+/**
+ * Execution order of rule phases: project rules one by one, with all file rules sharing
+ * one content-analysis pass where the first of them is registered
+ */
+function planRuleSteps(rules: Rule[], fileRules: FileRule[]): PhaseStep[] {
+  const steps: PhaseStep[] = [];
+  let contentAnalysisPlanned = false;
+  for (const rule of rules) {
+    if (rule.scope === 'project') {
+      steps.push({ id: rule.id, label: rule.id, categories: [rule.category], rule });
+    } else if (!contentAnalysisPlanned) {
+      steps.push({
+        id: 'content-analysis',
+        label: 'Analysing file contents',
+        categories: [...new Set(fileRules.map(fileRule => fileRule.category))]
+      });
+      contentAnalysisPlanned = true;
     }
+  }
+  return steps;
+}
 
-    return !hasContent;
-  };
+const countByCategory = (issues: Issue[]): IssueCountsByCategory => {
+  const counts: IssueCountsByCategory = {};
+  for (const issue of issues) {
+    counts[issue.category] = (counts[issue.category] || 0) + 1;
+  }
+  return counts;
+};
 
-  await traverse(dir);
-  return emptyDirectories;
-}
+/**
+ * Reports suppression comments that are malformed or no longer silence anything
+ */
+function checkSuppressionDirectives(
+  directivesByFile: Map<string, SuppressionDirective[]>,
+  knownRuleIds: Set<string>,
+  activeRuleIds: Set<string>
+): Issue[] {
+  const issues: Issue[] = [];
 
-async function collectNodeModulePackages(nodeModulesPath: string): Promise<string[]> {
-  try {
-    const entries = await fs.promises.readdir(nodeModulesPath, { withFileTypes: true });
-    const packages: string[] = [];
-
-    for (const entry of entries) {
-      if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
-
-      if (entry.name.startsWith('@')) {
-        const scopePath = path.join(nodeModulesPath, entry.name);
-        try {
-          const scopedEntries = await fs.promises.readdir(scopePath, { withFileTypes: true });
-          for (const scoped of scopedEntries) {
-            if (scoped.isDirectory() && !scoped.name.startsWith('.')) {
-              packages.push(path.join(entry.name, scoped.name));
-            }
-          }
-        } catch {
-          continue;
-        }
-      } else {
-        packages.push(entry.name);
+  for (const [file, directives] of directivesByFile) {
+    for (const directive of directives) {
+      const unknownIds = directive.ruleIds.filter(id => !knownRuleIds.has(id));
+      const problems = [
+        ...(directive.ruleIds.length === 0 ? ['no rule ids'] : []),
+        ...(unknownIds.length > 0 ? [`unknown rule id(s) ${unknownIds.join(', ')}`] : []),
+        ...(!directive.reason ? ['no reason after "--"'] : [])
+      ];
+
+      if (problems.length > 0) {
+        issues.push(createIssue(RULE_CATALOG.INVALID_SUPPRESSION, {
+          id: `invalid-suppression-${file}-${directive.line}`,
+          fingerprintKey: directive.text,
+          path: file,
+          message: `Suppression comment on line ${directive.line} has ${problems.join(' and ')}.`
+        }));
       }
-    }
 
-    return packages;
-  } catch {
-    return [];
+      // Only judge usage when every listed rule actually ran
+      const allRulesRan = directive.ruleIds.length > 0 && directive.ruleIds.every(id => activeRuleIds.has(id));
+      if (!directive.used && allRulesRan) {
+        issues.push(createIssue(RULE_CATALOG.UNUSED_SUPPRESSION, {
+          id: `unused-suppression-${file}-${directive.line}`,
+          fingerprintKey: directive.text,
+          path: file,
+          message: `Suppression comment on line ${directive.line} (${directive.ruleIds.join(', ')}) does not match any issue.`
+        }));
+      }
+    }
   }
-}
 
+  return issues;
+}
 
 /**
  * Core scan function that can be used by both API and CLI
  */
 export async function scanProject(
   scanPath: string,
-  logger?: LoggerFunction
+  logger?: LoggerFunction,
+  options: ScanOptions = {}
 ): Promise<ScanReport> {
   const startTime = Date.now();
   const log = logger || (() => {}); // Default to no-op logger
@@ -195,669 +258,143 @@ export async function scanProject(
   const issues: Issue[] = [];
   log('info', 'scan', 'Starting scan checks', { path: resolvedPath });
 
-  // 1. Git Status Check (only when .git exists under scanned directory)
-  const gitDir = path.join(resolvedPath, '.git');
-  const gitExists = await fs.promises
-    .access(gitDir)
-    .then(() => true)
-    .catch(() => false);
-
-  if (gitExists) {
-    try {
-      log('info', 'scan', 'Checking git status');
-      const gitStartTime = Date.now();
-      const gitEnv = {
-        ...process.env,
-        GIT_CEILING_DIRECTORIES: resolvedPath
-      };
-      const { stdout } = await execAsync('git status --porcelain', {
-        cwd: resolvedPath,
-        env: gitEnv
-      });
-      const gitDuration = Date.now() - gitStartTime;
-      if (stdout.trim()) {
-        const uncommittedFiles = stdout.trim().split('\n').length;
-        log('info', 'scan', 'Git status check completed', { 
-          uncommittedFiles, 
-          duration: gitDuration 
-        });
-        issues.push({
-          id: 'git-dirty-tree',
-          category: 'git',
-          type: 'UNCOMMITTED_CHANGES',
-          message: `Working tree has ${uncommittedFiles} uncommitted change(s). Commit or stash before deployment.`,
-          severity: 'warning',
-          snippet: stdout.split('\n').slice(0, 5).join('\n'),
-          suggestedAction: 'commit or stash changes'
-        });
-      }
-    } catch (error: unknown) {
-      const err = toError(error);
-      log('debug', 'scan', 'Git check skipped', { error: err.message || 'Not a git repo' });
-    }
-  } else {
-    log('debug', 'scan', 'Git check skipped', { reason: 'no .git directory in target path' });
-  }
-
-  // 2. File System Scan
-  log('info', 'scan', 'Starting filesystem scan');
-  const srcDir = path.join(resolvedPath, 'src');
-  try {
-    const srcDirExists = await fs.promises.access(srcDir).then(() => true).catch(() => false);
-    if (srcDirExists) {
-      // Empty Dirs
-      const emptyDirs = await findEmptyDirs(srcDir);
-      log('info', 'scan', 'Empty directories found', { count: emptyDirs.length });
-      emptyDirs.forEach(dir => {
-        issues.push({
-          id: `empty-dir-${dir}`,
-          category: 'filesystem',
-          type: 'EMPTY_DIR',
-          path: path.relative(resolvedPath, dir),
-          message: 'Directory is empty.',
-          severity: 'info',
-          suggestedAction: 'delete directory'
-        });
-      });
-    }
-  } catch {
-    // src dir doesn't exist, skip
-  }
-
-  // Zero Byte Files & Large Files - PARALLEL PROCESSING
-  const allFiles = await glob('**/*', {
-    cwd: resolvedPath,
-    nodir: true,
-    ignore: DEFAULT_GLOB_IGNORE
+  const availableRules = options.rules || getRules();
+  const config = await loadConfig(resolvedPath, {
+    configPath: options.configPath,
+    knownRuleIds: [...availableRules.map(rule => rule.id), ...SUPPRESSION_RULE_IDS]
   });
-  log('info', 'scan', 'Files found for analysis', { count: allFiles.length });
-
-  // Process files in larger parallel batches for better performance
-  const BATCH_SIZE = 150; // Increased batch size
-  const fileIssues: Issue[] = [];
-  
-  for (let i = 0; i < allFiles.length; i += BATCH_SIZE) {
-    const batch = allFiles.slice(i, i + BATCH_SIZE);
-    const batchResults = await Promise.all(
-      batch.map(async (file) => {
-        const fullPath = path.join(resolvedPath, file);
-        try {
-          const stats = await fs.promises.stat(fullPath);
-          const batchIssues: Issue[] = [];
-          
-          if (stats.size === 0) {
-            batchIssues.push({
-              id: `zero-byte-${file}`,
-              category: 'filesystem',
-              type: 'ZERO_BYTE_FILE',
-              path: file,
-              message: 'File is empty (0 bytes).',
-              severity: 'info',
-              suggestedAction: 'delete file'
-            });
-          }
-
-          // Performance: Large File Check (> 5MB)
-          if (stats.size > 5 * 1024 * 1024) {
-            batchIssues.push({
-              id: `large-file-${file}`,
-              category: 'performance',
-              type: 'LARGE_FILE',
-              path: file,
-              message: `File is too large (${(stats.size / 1024 / 1024).toFixed(2)} MB). Consider optimizing or lazy loading.`,
-              severity: 'warning',
-              suggestedAction: 'optimize file or implement lazy loading'
-            });
-          }
-          
-          return batchIssues;
-        } catch {
-          return [];
-        }
-      })
-    );
-    
-    fileIssues.push(...batchResults.flat());
+  if (config.source) {
+    log('info', 'scan', 'Loaded project config', { source: config.source });
   }
-  
-  issues.push(...fileIssues);
-
-  // Find backup/temp files
-  const backupPatterns = [
-    '**/*copy*', '**/*backup*', '**/*old*', '**/*.tmp',
-    '**/*.bak', '**/*~', '**/*draft*', '**/*deneme*'
-  ];
-  const backupFiles = await glob(backupPatterns, {
-    cwd: resolvedPath,
-    ignore: DEFAULT_GLOB_IGNORE
-  });
 
-  backupFiles.forEach(file => {
-    issues.push({
-      id: `backup-file-${file}`,
-      category: 'filesystem',
-      type: 'BACKUP_FILE',
-      path: file,
-      message: 'File appears to be a backup or temporary file.',
-      severity: 'warning',
-      suggestedAction: 'delete file'
-    });
-  });
-
-  // 3. Assets Scan (Orphan Assets)
-  const publicDir = path.join(resolvedPath, 'public');
-  try {
-    await fs.promises.access(publicDir);
-    const assetFiles = await glob('**/*', { cwd: publicDir, nodir: true, ignore: DEFAULT_GLOB_IGNORE });
-    
-    // Filter out Next.js default assets that are commonly unused
-    const defaultNextAssets = ['next.svg', 'vercel.svg', 'window.svg', 'globe.svg', 'file.svg'];
-    const filteredAssets = assetFiles.filter(asset => {
-      const basename = path.basename(asset);
-      return !defaultNextAssets.includes(basename);
-    });
-
-    if (filteredAssets.length > 0) {
-      const srcFilesForAssets = await glob('src/**/*.{ts,tsx,js,jsx,css,scss}', { cwd: resolvedPath, ignore: DEFAULT_GLOB_IGNORE });
-
-      // Read source files in batches for asset checking (optimized)
-      const ASSET_BATCH_SIZE = 40;
-      const srcContents: Array<{ file: string; content: string }> = [];
-      
-      for (let i = 0; i < srcFilesForAssets.length; i += ASSET_BATCH_SIZE) {
-        const batch = srcFilesForAssets.slice(i, i + ASSET_BATCH_SIZE);
-          const batchContents = await Promise.all(
-            batch.map(async (srcFile) => {
-              try {
-                const content = await fs.promises.readFile(path.join(resolvedPath, srcFile), 'utf-8');
-                return { file: srcFile, content };
-              } catch {
-                return { file: srcFile, content: '' };
-              }
-            })
-          );
-        srcContents.push(...batchContents);
-      }
-
-      for (const asset of filteredAssets) {
-        const assetName = path.basename(asset);
-
-        // Check if asset is referenced in any source file
-        const isUsed = srcContents.some(({ content }) =>
-          content.includes(assetName) || content.includes(asset)
-        );
-
-        if (!isUsed) {
-          issues.push({
-            id: `orphan-asset-${asset}`,
-            category: 'assets',
-            type: 'ORPHAN_ASSET',
-            path: path.join('public', asset),
-            message: `Asset "${assetName}" appears to be unused in src code.`,
-            severity: 'info',
-            suggestedAction: 'delete asset file'
-          });
-        }
-      }
-    }
-  } catch {
-    // public dir doesn't exist, skip
+  const disabledRules = new Set(options.disabledRules || []);
+  for (const [ruleId, ruleConfig] of Object.entries(config.rules)) {
+    if (!ruleConfig.enabled) disabledRules.add(ruleId);
   }
+  const rules = availableRules.filter(rule => !disabledRules.has(rule.id));
+  const fileRules = rules.filter((rule): rule is FileRule => rule.scope === 'file');
+  const context = createRuleContext(resolvedPath, log, config, options.signal);
+  const cache = options.useCache === false ? null : await loadScanCache(resolvedPath, config);
 
-  // 4. Dependencies Scan (aggressively optimized with timeout)
-  const depcheckOptions = {
-    ignoreBinPackage: true, // Skip binary packages for speed
-    skipMissing: false,
-    ignorePatterns: [
-      'dist', 'build', '.next', 'node_modules',
-      '**/dist/**', '**/build/**', '**/.next/**', '**/node_modules/**',
-      '**/*.test.*', '**/*.spec.*', '**/*.test.ts', '**/*.test.tsx',
-      '**/*.spec.ts', '**/*.spec.tsx', '**/tests/**', '**/__tests__/**',
-      '**/*.stories.*', '**/*.mock.*', '**/coverage/**', '**/.storybook/**'
-    ],
-    ignoreMatches: [
-      'eslint*', '@types/*', '@testing-library/*', 'jest*', 
-      'vitest*', 'mocha*', 'chai*', 'sinon*', 'cypress*', 'playwright*',
-      'webpack*', 'rollup*', 'vite*', 'tailwindcss*', 'postcss*', 'autoprefixer*'
-    ],
+  const emit = (event: DistributiveOmit<ScanProgressEvent, 'elapsedMs'>) => {
+    if (!options.onProgress) return;
+    try {
+      options.onProgress({ ...event, elapsedMs: Date.now() - startTime } as ScanProgressEvent);
+    } catch (error: unknown) {
+      // A broken listener must not fail the scan
+      log('warn', 'scan', 'Progress listener failed', { error: toError(error).message });
+    }
   };
 
-  // Run depcheck with aggressive timeout
-  let depResults: { dependencies: string[]; devDependencies: string[]; missing: Record<string, string[]> };
-  try {
-    const depcheckPromise = depcheck(resolvedPath, depcheckOptions);
-    const timeoutPromise = new Promise<typeof depResults>((_, reject) => 
-      setTimeout(() => reject(new Error('Depcheck timeout')), 8000) // 8 second timeout
-    );
-
-    depResults = await Promise.race([depcheckPromise, timeoutPromise]);
-  } catch {
-    // If depcheck fails or times out, continue with empty results
-    depResults = { dependencies: [], devDependencies: [], missing: {} };
-  }
-
-  depResults.dependencies.forEach(dep => {
-    issues.push({
-      id: `unused-dep-${dep}`,
-      category: 'dependencies',
-      type: 'UNUSED_DEP',
-      message: `Unused dependency: "${dep}"`,
-      severity: 'warning',
-      suggestedAction: 'remove from package.json dependencies'
-    });
-  });
-
-  depResults.devDependencies.forEach(dep => {
-    issues.push({
-      id: `unused-dev-dep-${dep}`,
-      category: 'dependencies',
-      type: 'UNUSED_DEV_DEP',
-      message: `Unused devDependency: "${dep}"`,
-      severity: 'info',
-      suggestedAction: 'remove from package.json devDependencies'
-    });
-  });
+  const ruleSteps = planRuleSteps(rules, fileRules);
+  const totalPhases = ruleSteps.length + 2;
+  const toPhase = ({ id, label, categories }: PhaseStep, position: number): ScanPhase =>
+    ({ id, label, categories, index: position + 1, total: totalPhases });
+  const discoveryPhase = toPhase({ id: 'discovery', label: 'Indexing files', categories: [] }, 0);
+  const finalizePhase = toPhase({ id: 'finalize', label: 'Applying suppressions and baseline', categories: [] }, totalPhases - 1);
+
+  const runPhase = async (phase: ScanPhase, run: () => Promise<Issue[]>) => {
+    throwIfAborted(options.signal);
+    const phaseStart = Date.now();
+    emit({ type: 'phase-started', phase });
+    const found = await run();
+    issues.push(...found);
+    emit({ type: 'phase-finished', phase, issues: found, durationMs: Date.now() - phaseStart });
+    if (found.length > 0) {
+      emit({ type: 'issues-found', total: issues.length, byCategory: countByCategory(issues) });
+    }
+  };
 
-  Object.keys(depResults.missing).forEach(dep => {
-    issues.push({
-      id: `missing-dep-${dep}`,
-      category: 'dependencies',
-      type: 'MISSING_DEP',
-      message: `Missing dependency: "${dep}"`,
-      severity: 'error',
-      snippet: `Used in: ${depResults.missing[dep].map(f => path.relative(resolvedPath, f)).join(', ')}`,
-      suggestedAction: 'add to package.json dependencies'
-    });
+  const directivesByFile = new Map<string, SuppressionDirective[]>();
+  await runPhase(discoveryPhase, async () => {
+    for (const { file, content } of await context.getSourceFiles()) {
+      const directives = isAnalyzerSource(file) ? [] : parseSuppressions(content);
+      if (directives.length > 0) directivesByFile.set(file, directives);
+    }
+    return [];
   });
 
-  // 5. Dependency Version Pinning Check (async)
-  const packageJsonPath = path.join(resolvedPath, 'package.json');
-  try {
-    await fs.promises.access(packageJsonPath);
-    try {
-      const packageJsonContent = await fs.promises.readFile(packageJsonPath, 'utf-8');
-      const packageJson = JSON.parse(packageJsonContent);
-      const checkVersions = (deps: Record<string, string>, type: string) => {
-        Object.entries(deps || {}).forEach(([name, version]) => {
-            if (version === '*' || version === 'latest' || version.includes('^') || version.includes('~')) {
-              issues.push({
-                id: `unpinned-${type}-${name}`,
-                category: 'dependencies',
-                type: 'UNPINNED_VERSION',
-                message: `${type} "${name}" uses non-deterministic version: "${version}". Consider pinning exact versions.`,
-                severity: 'warning',
-                suggestedAction: 'pin exact version in package.json'
-              });
-            }
+  for (const [position, step] of ruleSteps.entries()) {
+    const phase = toPhase(step, position + 1);
+    const { rule } = step;
+    await runPhase(phase, async () => {
+      if (!rule) {
+        return runContentAnalysis(context, fileRules, {
+          cache,
+          concurrency: options.concurrency,
+          signal: options.signal,
+          onFilesProcessed: (processed, total) => emit({ type: 'files-processed', processed, total })
         });
-      };
-
-      checkVersions(packageJson.dependencies, 'dependency');
-      checkVersions(packageJson.devDependencies, 'devDependency');
-    } catch { }
-  } catch {
-    // package.json doesn't exist, skip
-  }
-
-  // 6. License Audit (async + parallel)
-  try {
-    const nodeModulesPath = path.join(resolvedPath, 'node_modules');
-    try {
-      await fs.promises.access(nodeModulesPath);
-      const packages = await collectNodeModulePackages(nodeModulesPath);
-      const viralLicenses = ['GPL', 'AGPL', 'LGPL'];
-
-      // Process packages in parallel
-      const licenseChecks = packages.map(async (pkg) => {
-        const normalizedPkgName = pkg.replace(/\\/g, '/');
-        try {
-          const pkgJsonPath = path.join(nodeModulesPath, pkg, 'package.json');
-          try {
-            await fs.promises.access(pkgJsonPath);
-            const pkgJsonContent = await fs.promises.readFile(pkgJsonPath, 'utf-8');
-            const pkgJson = JSON.parse(pkgJsonContent);
-            const license = pkgJson.license || '';
-
-            if (viralLicenses.some(vl => license.toUpperCase().includes(vl))) {
-              if (LICENSE_ALLOWLIST_PREFIXES.some(prefix => normalizedPkgName.startsWith(prefix))) {
-                return null;
-              }
-              return {
-                id: `viral-license-${normalizedPkgName}`,
-                category: 'licenses' as const,
-                type: 'VIRAL_LICENSE',
-                message: `Package "${normalizedPkgName}" uses viral license: ${license}. May require open-sourcing your code.`,
-                severity: 'critical' as const,
-                suggestedAction: 'review license compatibility or replace package'
-              };
-            }
-          } catch { }
-        } catch { }
-        return null;
-      });
-
-      const licenseIssues = await Promise.all(licenseChecks);
-      for (const issue of licenseIssues) {
-        if (issue !== null) {
-          issues.push(issue);
-        }
       }
-    } catch {
-      // node_modules doesn't exist, skip
-    }
-  } catch { }
-
-  // 7. Orphan Modules (Optimized with batching)
-  // Try to find source files in common locations
-  const srcPatterns = [
-    '**/src/**/*.{ts,tsx,js,jsx}',
-    '**/app/**/*.{ts,tsx,js,jsx}',
-    '**/pages/**/*.{ts,tsx,js,jsx}',
-    '**/components/**/*.{ts,tsx,js,jsx}',
-    '**/lib/**/*.{ts,tsx,js,jsx}',
-    '**/utils/**/*.{ts,tsx,js,jsx}'
-  ];
-  
-  const allSrcFiles: string[] = [];
-  for (const pattern of srcPatterns) {
-    try {
-      const files = await glob(pattern, { cwd: resolvedPath, ignore: DEFAULT_GLOB_IGNORE });
-      allSrcFiles.push(...files);
-    } catch {
-      // Pattern doesn't match, continue
-    }
-  }
-  
-  // Remove duplicates
-  const uniqueSrcFiles = [...new Set(allSrcFiles)];
-
-  // Read all source files in larger batches for better performance
-  const CONTENT_BATCH_SIZE = 50; // Increased batch size
-  const allSrcContents: Array<{ file: string; content: string }> = [];
-  
-  for (let i = 0; i < uniqueSrcFiles.length; i += CONTENT_BATCH_SIZE) {
-    const batch = uniqueSrcFiles.slice(i, i + CONTENT_BATCH_SIZE);
-    const batchContents = await Promise.all(
-      batch.map(async (file) => {
-        try {
-          const content = await fs.promises.readFile(path.join(resolvedPath, file), 'utf-8');
-          return { file, content };
-        } catch {
-          return { file, content: '' };
-        }
-      })
-    );
-    allSrcContents.push(...batchContents);
-  }
-
-  // Process files in larger batches for content analysis (optimized)
-  const ANALYSIS_BATCH_SIZE = 25; // Increased batch size for better throughput
-  const contentAnalysisIssues: Issue[] = [];
-  
-  for (let i = 0; i < allSrcContents.length; i += ANALYSIS_BATCH_SIZE) {
-    const batch = allSrcContents.slice(i, i + ANALYSIS_BATCH_SIZE);
-    const batchIssues = await Promise.all(
-      batch.map(async ({ file, content: currentContent }) => {
-        const fileIssues: Issue[] = [];
-        const basename = path.basename(file, path.extname(file));
-        const normalizedFilePath = file.replace(/\\/g, '/');
-        const isAnalyzerSource = normalizedFilePath.endsWith('src/lib/scan.ts');
-
-        // Skip framework-specific files
-        if (basename === 'index' || basename === 'page' || basename === 'layout' || basename === 'route' || basename === 'globals') {
-          return fileIssues;
-        }
-
-        // Check if this file is referenced in any other file
-        const isReferenced = allSrcContents.some(({ file: otherFile, content }) => {
-          if (file === otherFile) return false;
-          return content.includes(basename);
-        });
-
-        if (!isReferenced) {
-          fileIssues.push({
-            id: `orphan-${file}`,
-            category: 'orphans',
-            type: 'ORPHAN_MODULE',
-            path: file,
-            message: `Possible orphan module: "${path.basename(file)}"`,
-            severity: 'warning',
-            snippet: 'No direct text reference found in other source files.',
-            suggestedAction: 'delete file or add import reference'
-          });
-        }
-
-        // --- Content Analysis Checks ---
-
-        if (!isAnalyzerSource) {
-          // Security: Hardcoded Secrets
-          const ensureGlobalRegex = (pattern: RegExp) => {
-            const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
-            return new RegExp(pattern.source, flags);
-          };
-
-          const secretPatterns = [
-            { regex: /AWS_ACCESS_KEY_ID\s*=\s*['"][A-Z0-9]{20}['"]/, name: 'AWS Access Key' },
-            { regex: /Bearer\s+[a-zA-Z0-9\-\._~\+\/]+=*/, name: 'Bearer Token' },
-            { regex: /ghp_[a-zA-Z0-9]{36}/, name: 'GitHub Personal Access Token' },
-            { regex: /sk_live_[0-9a-zA-Z]{24}/, name: 'Stripe Secret Key' },
-            { regex: /AIza[0-9A-Za-z-_]{35}/, name: 'Google API Key' }
-          ];
-
-          secretPatterns.forEach(({ regex, name }) => {
-            const matcher = ensureGlobalRegex(regex);
-            let match: RegExpExecArray | null;
-            while ((match = matcher.exec(currentContent)) !== null) {
-              if (name === 'Bearer Token') {
-                const tokenPart = match[0].replace(/Bearer\s+/i, '').trim();
-                if (tokenPart.length < 16) {
-                  continue;
-                }
-              }
-
-              fileIssues.push({
-                id: `secret-${file}-${name}`,
-                category: 'security',
-                type: 'HARDCODED_SECRET',
-                path: file,
-                message: `Potential hardcoded secret found: ${name}`,
-                severity: 'critical',
-                snippet: '***REDACTED***',
-                suggestedAction: 'move to environment variable and remove from code'
-              });
-              break;
-            }
-          });
-        }
-
-        // Code Quality: Console Logs & TODOs
-        // Skip logger.ts files as they intentionally use console.log for debugging
-        if (!isAnalyzerSource && !file.includes('logger.ts') && !file.includes('logger.js')) {
-          // Check for console.log but ignore if it's wrapped in development check
-          const consoleLogRegex = /console\.log\(/g;
-          const hasConsoleLog = consoleLogRegex.test(currentContent);
-          
-          if (hasConsoleLog) {
-            // Check if console.log is wrapped in development check
-            const lines = currentContent.split('\n');
-            let hasDevelopmentCheck = false;
-            
-            for (let i = 0; i < lines.length; i++) {
-              if (lines[i].includes('console.log(')) {
-                // Check previous lines for development check (look back up to 10 lines)
-                const beforeLines = lines.slice(Math.max(0, i - 10), i).join('\n');
-                if (beforeLines.includes('process.env.NODE_ENV') && 
-                    (beforeLines.includes('development') || beforeLines.includes('=== \'development\'') || beforeLines.includes('=== "development"'))) {
-                  hasDevelopmentCheck = true;
-                  break;
-                }
-              }
-            }
-            
-            if (!hasDevelopmentCheck) {
-              fileIssues.push({
-                id: `console-log-${file}`,
-                category: 'code-quality',
-                type: 'CONSOLE_LOG',
-                path: file,
-                message: 'Console.log statement found. Remove before production.',
-                severity: 'warning',
-                suggestedAction: 'remove console.log or wrap in dev check'
-              });
-            }
-          }
-        }
-
-        if (!isAnalyzerSource && (currentContent.includes('// TODO:') || currentContent.includes('// FIXME:'))) {
-          fileIssues.push({
-            id: `todo-${file}`,
-            category: 'code-quality',
-            type: 'TODO_COMMENT',
-            path: file,
-            message: 'Unresolved TODO or FIXME comment found.',
-            severity: 'info',
-            suggestedAction: 'resolve TODO/FIXME or remove comment'
-          });
-        }
-
-        // Performance: Sync I/O
-        if (!isAnalyzerSource && (currentContent.includes('readFileSync') || currentContent.includes('writeFileSync') || currentContent.includes('readdirSync'))) {
-          fileIssues.push({
-            id: `sync-io-${file}`,
-            category: 'performance',
-            type: 'SYNC_IO',
-            path: file,
-            message: 'Synchronous I/O operation detected. Use async alternatives for better performance.',
-            severity: 'warning',
-            suggestedAction: 'convert to async (readFile, writeFile, readdir)'
-          });
-        }
-
-        // SEO: Metadata Check (Next.js specific)
-        if ((file.includes('page.tsx') || file.includes('layout.tsx')) && file.includes('app/')) {
-          const hasMetadata = currentContent.includes('export const metadata') ||
-            currentContent.includes('generateMetadata');
-          if (!hasMetadata) {
-            fileIssues.push({
-              id: `missing-metadata-${file}`,
-              category: 'seo',
-              type: 'MISSING_METADATA',
-              path: file,
-              message: 'Page/Layout missing metadata export. Add title and description for SEO.',
-              severity: 'warning',
-              suggestedAction: 'add metadata export with title and description'
-            });
-          }
-        }
-
-        // Accessibility: Basic A11y Checks
-        if (file.endsWith('.tsx') || file.endsWith('.jsx')) {
-          // Check for images without alt
-          const imgWithoutAlt = /<img(?![^>]*alt=)[^>]*>/g;
-          if (imgWithoutAlt.test(currentContent)) {
-            fileIssues.push({
-              id: `missing-alt-${file}`,
-              category: 'accessibility',
-              type: 'MISSING_ALT',
-              path: file,
-              message: 'Image tag found without alt attribute. Add alt text for accessibility.',
-              severity: 'warning',
-              suggestedAction: 'add alt attribute to img tag'
-            });
-          }
-
-          // Check for inputs without labels
-          const inputWithoutLabel = /<input(?![^>]*aria-label)[^>]*>/g;
-          const hasLabels = currentContent.includes('<label');
-          if (inputWithoutLabel.test(currentContent) && !hasLabels) {
-            fileIssues.push({
-              id: `missing-label-${file}`,
-              category: 'accessibility',
-              type: 'MISSING_LABEL',
-              path: file,
-              message: 'Input field found without associated label or aria-label.',
-              severity: 'warning',
-              suggestedAction: 'add label element or aria-label attribute'
-            });
-          }
-        }
-
-        return fileIssues;
-      })
-    );
-    contentAnalysisIssues.push(...batchIssues.flat());
+      try {
+        const cacheKey = cache && rule.cacheKey ? await rule.cacheKey(context) : null;
+        const cached = cacheKey ? cache?.getProjectIssues(rule.id, cacheKey) : null;
+        if (cached) return cached;
+        const found = await rule.run(context);
+        if (cacheKey) cache?.setProjectIssues(rule.id, cacheKey, found);
+        return found;
+      } catch (error: unknown) {
+        // Cancellation ends the scan instead of counting as a failed rule
+        throwIfAborted(options.signal);
+        log('error', 'scan', 'Rule failed', { rule: rule.id, error: toError(error).message });
+        return [];
+      }
+    });
   }
 
-  issues.push(...contentAnalysisIssues);
-
-  // 8. Environment Variables Check
-  const envVarsUsed = new Set<string>();
-  const envRegex = /process\.env\.([A-Z_][A-Z0-9_]*)/g;
-
-  for (const { content } of allSrcContents) {
-    let match;
-    while ((match = envRegex.exec(content)) !== null) {
-      if (match[1] !== 'NODE_ENV') {
-        envVarsUsed.add(match[1]);
-      }
+  throwIfAborted(options.signal);
+  const phaseStart = Date.now();
+  emit({ type: 'phase-started', phase: finalizePhase });
+
+  // Directives apply to project rules (e.g. ORPHAN_MODULE) reporting that file as well as file rules
+  const suppression = applySuppressions(issues, directivesByFile);
+  issues.splice(0, issues.length, ...suppression.issues);
+  const suppressed: SuppressedIssue[] = suppression.suppressed;
+
+  const suppressionIssues = checkSuppressionDirectives(
+    directivesByFile,
+    new Set([...availableRules.map(rule => rule.id), ...SUPPRESSION_RULE_IDS]),
+    new Set(rules.map(rule => rule.id))
+  );
+  issues.push(...suppressionIssues.filter(issue => !disabledRules.has(issue.type)));
+
+  // Apply per-rule severity overrides from the config
+  for (const issue of [...issues, ...suppressed]) {
+    const override = config.rules[issue.type]?.severity;
+    if (override) {
+      issue.severity = override;
     }
   }
 
-  // Check .env files
-  const definedEnvVars = new Set<string>();
-  const envFiles = await glob('.env*', { cwd: resolvedPath, nodir: true, ignore: DEFAULT_GLOB_IGNORE });
+  disambiguateFingerprints(issues);
+  disambiguateFingerprints(suppressed);
 
-  for (const envFile of envFiles) {
-    try {
-      const content = await fs.promises.readFile(path.join(resolvedPath, envFile), 'utf-8');
-      content.split('\n').forEach(line => {
-        const trimmed = line.trim();
-        if (trimmed && !trimmed.startsWith('#')) {
-          const parts = trimmed.split('=');
-          if (parts.length > 0 && parts[0].trim()) {
-            definedEnvVars.add(parts[0].trim());
-          }
-        }
-      });
-    } catch { }
+  const baseline = options.useBaseline === false ? null : await loadBaseline(resolvedPath);
+  const baselineSummary = baseline ? applyBaseline(issues, baseline) : undefined;
+  if (baselineSummary) {
+    log('info', 'scan', 'Compared issues against baseline', {
+      newIssues: baselineSummary.newIssues,
+      baselinedIssues: baselineSummary.baselinedIssues,
+      fixed: baselineSummary.fixed.length
+    });
   }
 
-  envVarsUsed.forEach(envVar => {
-    if (!definedEnvVars.has(envVar)) {
-      issues.push({
-        id: `missing-env-${envVar}`,
-        category: 'env',
-        type: 'MISSING_ENV_VAR',
-        message: `Environment variable "${envVar}" is used in code but not defined in any .env file.`,
-        severity: 'error',
-        suggestedAction: 'add to .env file'
-      });
-    }
-  });
-
-  // 9. Build Check
-  if (fs.existsSync(path.join(resolvedPath, 'tsconfig.json'))) {
+  if (cache) {
     try {
-      await execAsync('npx tsc --noEmit', { cwd: resolvedPath });
+      await cache.save();
     } catch (error: unknown) {
-      const err = error as { stdout?: string };
-      const stdout = err?.stdout || '';
-      const lines = stdout.split('\n').slice(0, 3).join('\n');
-      issues.push({
-        id: 'build-error',
-        category: 'build',
-        type: 'BUILD_FAILURE',
-        message: 'TypeScript build/check failed.',
-        severity: 'error',
-        snippet: lines,
-        suggestedAction: 'fix TypeScript errors'
-      });
+      // A read-only checkout still gets a report
+      log('warn', 'scan', 'Could not write scan cache', { error: toError(error).message });
     }
   }
 
+  const finalCounts = countByCategory(issues);
+  emit({ type: 'phase-finished', phase: finalizePhase, issues: [], durationMs: Date.now() - phaseStart });
+  emit({ type: 'scan-finished', total: issues.length, byCategory: finalCounts });
+
   const totalDuration = Date.now() - startTime;
   // Count all scanned files (not just src files)
-  const totalFilesScanned = allFiles.length;
+  const totalFilesScanned = (await context.listFiles()).length;
   
   const report: ScanReport = {
     project: path.basename(resolvedPath),
@@ -866,8 +403,14 @@ export async function scanProject(
     stats: {
       filesScanned: totalFilesScanned,
       orphansFound: issues.filter(i => i.category === 'orphans').length,
-      unusedDeps: depResults.dependencies.length + depResults.devDependencies.length
+      unusedDeps: issues.filter(i => i.type === 'UNUSED_DEP' || i.type === 'UNUSED_DEV_DEP').length,
+      suppressed: suppressed.length,
+      ...(cache && { cache: cache.getStats() }),
+      health: computeHealthScore(issues, config.scoring)
     },
+    suppressed,
+    ...(baselineSummary && { baseline: baselineSummary }),
+    config,
     rootPath: resolvedPath
   };
 
@@ -876,10 +419,7 @@ export async function scanProject(
     issueCount: issues.length,
     filesScanned: report.stats.filesScanned,
     duration: totalDuration,
-    issuesByCategory: issues.reduce((acc, issue) => {
-      acc[issue.category] = (acc[issue.category] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>)
+    issuesByCategory: finalCounts
   });
 
   return report;
@@ -0,0 +1,91 @@
+import type { Issue, SuppressedIssue } from './types';
+
+/**
+ * Inline suppression comments.
+ * "sanity-gate-disable-next-line RULE_A, RULE_B -- reason" silences issues of the listed rules starting on the following line;
+ * "sanity-gate-disable RULE_A -- reason" silences them for the whole file. Both work in line and block comments.
+ */
+
+export interface SuppressionDirective {
+  scope: 'line' | 'file';
+  // 1-based line of the comment itself
+  line: number;
+  // 1-based line being silenced (same as line for file directives)
+  targetLine: number;
+  ruleIds: string[];
+  reason?: string;
+  // Comment line with whitespace collapsed, used to fingerprint issues about the directive
+  text: string;
+  used: boolean;
+}
+
+// Issue types reported by the suppression checks themselves
+export const SUPPRESSION_RULE_IDS = ['INVALID_SUPPRESSION', 'UNUSED_SUPPRESSION'];
+
+const DIRECTIVE_MARKER = 'sanity-gate-disable';
+const DIRECTIVE_REGEX = /(?:\/\/|\/\*)\s*sanity-gate-(disable-next-line|disable)(?![\w-])([^\n]*?)(?:\*\/|$)/;
+
+export function parseSuppressions(content: string): SuppressionDirective[] {
+  if (!content.includes(DIRECTIVE_MARKER)) return [];
+
+  const directives: SuppressionDirective[] = [];
+  const lines = content.split('\n');
+
+  lines.forEach((text, index) => {
+    const match = DIRECTIVE_REGEX.exec(text);
+    if (!match) return;
+
+    const [rulesPart, ...reasonParts] = match[2].split('--');
+    const reason = reasonParts.join('--').trim();
+    const line = index + 1;
+    const scope = match[1] === 'disable' ? 'file' : 'line';
+
+    directives.push({
+      scope,
+      line,
+      targetLine: scope === 'line' ? line + 1 : line,
+      ruleIds: rulesPart.split(/[\s,]+/).filter(Boolean),
+      ...(reason && { reason }),
+      text: text.trim().replace(/\s+/g, ' '),
+      used: false
+    });
+  });
+
+  return directives;
+}
+
+const toSuppressed = (issue: Issue, directive: SuppressionDirective): SuppressedIssue => ({
+  ...issue,
+  suppression: {
+    scope: directive.scope,
+    line: directive.line,
+    ...(directive.reason && { reason: directive.reason })
+  }
+});
+
+/**
+ * Moves issues silenced by a directive in their file into the suppressed list.
+ * File directives cover every issue of the listed types reported for the file; line directives cover
+ * issues whose location starts on the line after the comment.
+ */
+export function applySuppressions(
+  issues: Issue[],
+  directivesByFile: Map<string, SuppressionDirective[]>
+): { issues: Issue[]; suppressed: SuppressedIssue[] } {
+  const kept: Issue[] = [];
+  const suppressed: SuppressedIssue[] = [];
+
+  for (const issue of issues) {
+    const applicable = (issue.path && directivesByFile.get(issue.path)?.filter(d => d.ruleIds.includes(issue.type))) || [];
+    const directive = applicable.find(d => d.scope === 'file') ||
+      applicable.find(d => d.scope === 'line' && d.targetLine === issue.location?.startLine);
+    if (directive) {
+      directive.used = true;
+      suppressed.push(toSuppressed(issue, directive));
+    } else {
+      kept.push(issue);
+    }
+  }
+
+  return { issues: kept, suppressed };
+}
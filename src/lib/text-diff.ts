@@ -0,0 +1,106 @@
+/**
+ * Line-based unified diffs for previewing fixes (`sanity-gate fix --dry-run --format diff`)
+ */
+
+interface DiffOp {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+const CONTEXT_LINES = 3;
+
+// Past this many line pairs the changed middle is shown as a whole-block replacement instead of matched line by line
+const MAX_LCS_CELLS = 1_000_000;
+
+const splitLines = (content: string) => {
+  if (content === '') return [];
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+function diffLines(before: string[], after: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix && suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) suffix++;
+
+  const oldMiddle = before.slice(prefix, before.length - suffix);
+  const newMiddle = after.slice(prefix, after.length - suffix);
+  const middle: DiffOp[] = [];
+
+  if (oldMiddle.length * newMiddle.length > MAX_LCS_CELLS) {
+    middle.push(...oldMiddle.map(text => ({ type: '-' as const, text })));
+    middle.push(...newMiddle.map(text => ({ type: '+' as const, text })));
+  } else {
+    // lengths[i][j]: longest common subsequence of oldMiddle[i..] and newMiddle[j..]
+    const lengths = Array.from({ length: oldMiddle.length + 1 }, () => new Array<number>(newMiddle.length + 1).fill(0));
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+      for (let j = newMiddle.length - 1; j >= 0; j--) {
+        lengths[i][j] = oldMiddle[i] === newMiddle[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length || j < newMiddle.length) {
+      if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+        middle.push({ type: ' ', text: oldMiddle[i++] });
+        j++;
+      } else if (j >= newMiddle.length || (i < oldMiddle.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+        middle.push({ type: '-', text: oldMiddle[i++] });
+      } else {
+        middle.push({ type: '+', text: newMiddle[j++] });
+      }
+    }
+  }
+
+  return [
+    ...before.slice(0, prefix).map(text => ({ type: ' ' as const, text })),
+    ...middle,
+    ...before.slice(before.length - suffix).map(text => ({ type: ' ' as const, text }))
+  ];
+}
+
+/**
+ * Unified diff of one file; null content stands for a missing file (creation or deletion).
+ * Returns an empty string when nothing changed; creating or deleting an empty file still gets the header.
+ */
+export function createUnifiedDiff(filePath: string, before: string | null, after: string | null): string {
+  const ops = diffLines(splitLines(before ?? ''), splitLines(after ?? ''));
+  const changed = ops.map((op, index) => (op.type === ' ' ? -1 : index)).filter(index => index !== -1);
+  if (changed.length === 0 && (before === null) === (after === null)) return '';
+
+  const lines = [
+    `--- ${before === null ? '/dev/null' : `a/${filePath}`}`,
+    `+++ ${after === null ? '/dev/null' : `b/${filePath}`}`
+  ];
+
+  // Changes closer than twice the context share one hunk
+  const hunks: [number, number][] = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - CONTEXT_LINES);
+    const end = Math.min(ops.length, index + CONTEXT_LINES + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) last[1] = end;
+    else hunks.push([start, end]);
+  }
+
+  for (const [start, end] of hunks) {
+    const preceding = ops.slice(0, start);
+    const oldStart = preceding.filter(op => op.type !== '+').length;
+    const newStart = preceding.filter(op => op.type !== '-').length;
+    const body = ops.slice(start, end);
+    const oldCount = body.filter(op => op.type !== '+').length;
+    const newCount = body.filter(op => op.type !== '-').length;
+    // Empty ranges are numbered by the line before them
+    lines.push(`@@ -${oldCount === 0 ? oldStart : oldStart + 1},${oldCount} +${newCount === 0 ? newStart : newStart + 1},${newCount} @@`);
+    lines.push(...body.map(op => `${op.type}${op.text}`));
+  }
+
+  return lines.join('\n');
+}
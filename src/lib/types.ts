@@ -0,0 +1,183 @@
+// Types for our report
+export type IssueSeverity = 'info' | 'warning' | 'error' | 'critical';
+
+export type IssueCategory =
+  | 'filesystem'
+  | 'orphans'
+  | 'dependencies'
+  | 'build'
+  | 'assets'
+  | 'security'
+  | 'code-quality'
+  | 'performance'
+  | 'env'
+  | 'git'
+  | 'seo'
+  | 'accessibility'
+  | 'licenses';
+
+// 1-based positions; endColumn points one past the last character of the range
+export interface IssueLocation {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface Issue {
+  id: string;
+  // Stable content-based identity for matching issues across scans (see fingerprint.ts)
+  fingerprint: string;
+  category: IssueCategory;
+  type: string;
+  path?: string;
+  // Offending range within path, for issues found in file content
+  location?: IssueLocation;
+  message: string;
+  severity: IssueSeverity;
+  snippet?: string;
+  suggestedAction?: string;
+  // Set when the project has a baseline file: whether the issue is already recorded there
+  baselineStatus?: 'new' | 'baselined';
+}
+
+export interface BaselineEntry {
+  fingerprint: string;
+  type: string;
+  path?: string;
+  message: string;
+}
+
+export interface BaselineSummary {
+  source: string;
+  newIssues: number;
+  baselinedIssues: number;
+  // Baseline entries that no longer occur and can be dropped from the file
+  fixed: BaselineEntry[];
+}
+
+export interface SuppressedIssue extends Issue {
+  suppression: {
+    scope: 'line' | 'file';
+    // Line of the suppression comment
+    line: number;
+    reason?: string;
+  };
+}
+
+// Issue cost in points by severity, and each category's share of the overall score
+export interface ScoringConfig {
+  severityWeights: Record<IssueSeverity, number>;
+  categoryWeights: Partial<Record<IssueCategory, number>>;
+}
+
+export interface HealthScore {
+  overall: number;
+  categories: Record<IssueCategory, number>;
+}
+
+export interface RuleConfig {
+  enabled: boolean;
+  severity?: IssueSeverity;
+}
+
+export interface SanityGateConfig {
+  // Extra glob patterns skipped by every rule (added to the built-in ignores)
+  ignore: string[];
+  // Extra glob patterns for files loaded outside the import graph (scripts, workers, framework conventions)
+  entryPoints: string[];
+  rules: Record<string, RuleConfig>;
+  thresholds: {
+    largeFileBytes: number;
+    depcheckTimeoutMs: number;
+    // Larger files are indexed but their content is not analysed
+    maxReadBytes: number;
+    // Memory for file contents shared by rules; beyond it files are re-read instead of kept
+    contentCacheBytes: number;
+  };
+  backupPatterns: string[];
+  allowlists: {
+    // Package name prefixes exempt from VIRAL_LICENSE
+    licenses: string[];
+    // Asset file names exempt from ORPHAN_ASSET
+    assets: string[];
+  };
+  scoring: ScoringConfig;
+}
+
+export interface ResolvedConfig extends SanityGateConfig {
+  // Config file the values came from, relative to the scanned root (null when defaults are used)
+  source: string | null;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  // hits / (hits + misses), 0 when nothing was looked up
+  hitRate: number;
+}
+
+export interface ScanReport {
+  project: string;
+  timestamp: string;
+  issues: Issue[];
+  stats: {
+    filesScanned: number;
+    orphansFound: number;
+    unusedDeps: number;
+    suppressed: number;
+    // Result cache usage; absent when the scan ran without the cache
+    cache?: CacheStats;
+    // Absent in reports saved before scores existed
+    health?: HealthScore;
+  };
+  // Issues silenced by inline sanity-gate-disable comments
+  suppressed?: SuppressedIssue[];
+  baseline?: BaselineSummary;
+  config?: ResolvedConfig;
+  rootPath?: string;
+  rootSignature?: string;
+  // Id in the report store, once saved there
+  id?: string;
+}
+
+// Report store listing entry; the full report is fetched by id
+export interface StoredReportSummary {
+  id: string;
+  project: string;
+  rootPath: string;
+  timestamp: string;
+  issueCount: number;
+  issuesBySeverity: Partial<Record<IssueSeverity, number>>;
+  healthScore?: number;
+  filesScanned: number;
+}
+
+// A step of a scan: 'discovery', 'content-analysis' (all file rules), a project rule id, or 'finalize'
+export interface ScanPhase {
+  id: string;
+  label: string;
+  // Categories whose rules run in this phase
+  categories: IssueCategory[];
+  // 1-based position among `total` phases
+  index: number;
+  total: number;
+}
+
+// Issue counts so far; raw counts before suppressions until scan-finished
+export type IssueCountsByCategory = Partial<Record<IssueCategory, number>>;
+
+// Structured progress from scanProject; elapsedMs is measured from the start of the scan
+export type ScanProgressEvent =
+  | { type: 'phase-started'; phase: ScanPhase; elapsedMs: number }
+  // issues are those the phase found, before suppressions, severity overrides and the baseline
+  | { type: 'phase-finished'; phase: ScanPhase; issues: Issue[]; durationMs: number; elapsedMs: number }
+  | { type: 'files-processed'; processed: number; total: number; elapsedMs: number }
+  | { type: 'issues-found'; total: number; byCategory: IssueCountsByCategory; elapsedMs: number }
+  | { type: 'scan-finished'; total: number; byCategory: IssueCountsByCategory; elapsedMs: number };
+
+export type ProgressListener = (event: ScanProgressEvent) => void;
+
+// Optional logger function (can be overridden)
+export type LogPayload = Record<string, unknown>;
+export type LoggerFunction = (level: string, category: string, message: string, data?: LogPayload) => void;
@@ -0,0 +1,188 @@
+import fs from 'fs';
+import path from 'path';
+import { Glob, glob } from 'glob';
+import { throwIfAborted } from './abort';
+import { hashContent } from './cache';
+import type { FileStat, SourceFile } from './rules/types';
+import type { LoggerFunction } from './types';
+
+/**
+ * Virtual file layer shared by every rule in a scan.
+ * The project is walked once into an index of paths and sizes. Contents are read on first use and kept in an
+ * LRU cache bounded by contentCacheBytes; evicted files are read again when asked for. Binary files and files
+ * larger than maxReadBytes stay in the index but are never returned as text.
+ */
+
+export interface FileIndex {
+  // Every non-directory entry, dotfiles included, with paths relative to the root
+  files: FileStat[];
+  directories: string[];
+}
+
+interface VirtualFileSystem {
+  getIndex(): Promise<FileIndex>;
+  // Text content, or null for binary, oversized and unreadable files
+  readFile(file: string): Promise<string | null>;
+  // Readable files among the given ones, in the same order
+  readFiles(files: string[]): Promise<SourceFile[]>;
+  // sha256 of the raw bytes (oversized files included), or null when unreadable
+  hashFile(file: string): Promise<string | null>;
+  // Files (and directories when asked) matching globs, answered from the directory listings of the walk
+  matchFiles(patterns: string | string[], options?: MatchOptions): Promise<string[]>;
+}
+
+export interface MatchOptions {
+  includeDirectories?: boolean;
+}
+
+interface VirtualFileSystemOptions {
+  ignore: string[];
+  maxReadBytes: number;
+  contentCacheBytes: number;
+  log: LoggerFunction;
+  // Stops the walk and batched reads
+  signal?: AbortSignal;
+}
+
+// Same heuristic as git: a NUL byte near the start means binary
+const BINARY_SNIFF_BYTES = 8000;
+
+const READ_BATCH_SIZE = 50;
+
+const isBinary = (buffer: Buffer) => buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+
+export function createVirtualFileSystem(rootPath: string, options: VirtualFileSystemOptions): VirtualFileSystem {
+  const walker = new Glob('**/*', {
+    cwd: rootPath,
+    dot: true,
+    stat: true,
+    withFileTypes: true,
+    ignore: options.ignore,
+    signal: options.signal
+  });
+
+  let indexPromise: Promise<FileIndex> | null = null;
+  const sizes = new Map<string, number>();
+
+  const getIndex = () => {
+    if (!indexPromise) {
+      indexPromise = walker.walk().then(entries => {
+        const index: FileIndex = { files: [], directories: [] };
+        for (const entry of entries) {
+          const file = entry.relative();
+          if (entry.isDirectory()) {
+            index.directories.push(file);
+          } else {
+            const size = entry.size ?? 0;
+            sizes.set(file, size);
+            index.files.push({ file, size });
+          }
+        }
+        return index;
+      }, (error: unknown) => {
+        // Report a cancelled walk like every other cancelled step
+        throwIfAborted(options.signal);
+        throw error;
+      });
+    }
+    return indexPromise;
+  };
+
+  // Least recently used first
+  const contents = new Map<string, { content: string; bytes: number }>();
+  let cachedBytes = 0;
+  const hashes = new Map<string, string>();
+  // Binary and oversized files, which are never returned as text
+  const skipped = new Set<string>();
+  const pending = new Map<string, Promise<string | null>>();
+
+  const remember = (file: string, content: string, bytes: number) => {
+    if (bytes > options.contentCacheBytes) return;
+    contents.set(file, { content, bytes });
+    cachedBytes += bytes;
+    for (const [oldest, entry] of contents) {
+      if (cachedBytes <= options.contentCacheBytes) break;
+      contents.delete(oldest);
+      cachedBytes -= entry.bytes;
+    }
+  };
+
+  // Reads the file once for both its hash and its text
+  const load = async (file: string, forHash: boolean): Promise<string | null> => {
+    await getIndex();
+    const size = sizes.get(file);
+    if (!forHash && size !== undefined && size > options.maxReadBytes) {
+      options.log('info', 'scan', 'Skipped file above maxReadBytes', { file, size });
+      skipped.add(file);
+      return null;
+    }
+
+    let buffer: Buffer;
+    try {
+      buffer = await fs.promises.readFile(path.join(rootPath, file));
+    } catch {
+      return null;
+    }
+    hashes.set(file, hashContent(buffer));
+    if (buffer.length > options.maxReadBytes || isBinary(buffer)) {
+      skipped.add(file);
+      return null;
+    }
+
+    const content = buffer.toString('utf-8');
+    remember(file, content, buffer.length);
+    return content;
+  };
+
+  const readFile = async (file: string) => {
+    const cached = contents.get(file);
+    if (cached) {
+      // Move to the most recently used end
+      contents.delete(file);
+      contents.set(file, cached);
+      return cached.content;
+    }
+    if (skipped.has(file)) return null;
+
+    let read = pending.get(file);
+    if (!read) {
+      read = load(file, false).finally(() => pending.delete(file));
+      pending.set(file, read);
+    }
+    return read;
+  };
+
+  const readFiles = async (files: string[]) => {
+    const results: SourceFile[] = [];
+    for (let i = 0; i < files.length; i += READ_BATCH_SIZE) {
+      throwIfAborted(options.signal);
+      const batch = files.slice(i, i + READ_BATCH_SIZE);
+      const batchContents = await Promise.all(batch.map(readFile));
+      batch.forEach((file, index) => {
+        const content = batchContents[index];
+        if (content !== null) results.push({ file, content });
+      });
+    }
+    return results;
+  };
+
+  const hashFile = async (file: string) => {
+    if (!hashes.has(file)) await pending.get(file);
+    // A text read stops before reading an oversized file, so hash it separately
+    if (!hashes.has(file)) await load(file, true);
+    return hashes.get(file) ?? null;
+  };
+
+  const matchFiles = async (patterns: string | string[], matchOptions: MatchOptions = {}) => {
+    // Sharing the walker's PathScurry reuses its cached directory listings instead of reading the tree again
+    await getIndex();
+    return glob(patterns, {
+      cwd: rootPath,
+      nodir: !matchOptions.includeDirectories,
+      ignore: options.ignore,
+      scurry: walker.scurry
+    });
+  };
+
+  return { getIndex, readFile, readFiles, hashFile, matchFiles };
+}
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { createProject, removeProject } from '@/lib/__tests__/helpers';
+import { createScanJobQueue } from '@/utils/scan-jobs';
+import type { ScanJobQueue } from '@/utils/scan-jobs';
+
+let root: string;
+let dataDir: string;
+
+before(async () => {
+  root = await createProject({ 'package.json': '{"name":"fixture","private":true}', 'src/index.ts': 'export const a = 1;\n' });
+  // Completed jobs save their report; keep it out of the real report store
+  dataDir = await createProject({});
+  process.env.SANITY_GATE_DATA_DIR = dataDir;
+});
+
+after(async () => {
+  await removeProject(root);
+  await removeProject(dataDir);
+});
+
+const createQueue = (ttlMs = 60_000) => createScanJobQueue({ concurrency: 1, maxQueued: 5, ttlMs, log: () => {} });
+
+async function waitUntilFinished(queue: ScanJobQueue, id: string) {
+  for (let attempt = 0; attempt < 600; attempt++) {
+    const job = queue.get(id);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return job;
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  throw new Error(`Job ${id} did not finish`);
+}
+
+test('queued and running jobs can be cancelled, finished ones forgotten', async () => {
+  const queue = createQueue();
+  const first = queue.submit(root);
+  const second = queue.submit(root);
+  assert.ok(first && second);
+  assert.equal(first.status, 'running');
+  assert.equal(second.queuePosition, 1);
+
+  const cancelledQueued = queue.cancel(second.id);
+  assert.equal(cancelledQueued?.status, 'cancelled');
+  assert.equal(queue.get(second.id)?.queuePosition, undefined);
+
+  assert.equal(queue.cancel(first.id)?.status, 'running');
+  assert.equal((await waitUntilFinished(queue, first.id))?.status, 'cancelled');
+
+  assert.equal(queue.cancel(first.id)?.status, 'cancelled');
+  assert.equal(queue.get(first.id), null);
+  assert.equal(queue.cancel('unknown'), null);
+});
+
+test('jobs that wait in the queue longer than the TTL are dropped', async () => {
+  const queue = createQueue(50);
+  const running = queue.submit(root);
+  const waiting = queue.submit(root);
+  assert.ok(running && waiting);
+
+  await new Promise(resolve => setTimeout(resolve, 100));
+  assert.equal(queue.get(waiting.id), null);
+  assert.equal(queue.get(running.id)?.status, 'running');
+
+  queue.cancel(running.id);
+  await waitUntilFinished(queue, running.id);
+});
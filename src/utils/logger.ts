@@ -295,6 +295,3 @@ class Logger {
 
 // Export singleton instance
 export const logger = new Logger();
-
-// Export types for use in components
-export type { LogLevel, LogCategory, LogEntry };
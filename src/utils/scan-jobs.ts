@@ -0,0 +1,198 @@
+import crypto from 'crypto';
+import { applyProgressEvent, createProgressState } from '@/lib/progress';
+import type { ScanProgressState } from '@/lib/progress';
+import { scanProject } from '@/lib/scan';
+import type { ScanReport } from '@/lib/scan';
+import type { LoggerFunction } from '@/utils/server-logger';
+import { classifyScanError, saveToReportStore, withRootSignature } from '@/utils/scan-request';
+
+/**
+ * Background scan jobs for POST /api/scans: scans wait in a FIFO queue, at most `concurrency` run at once,
+ * and jobs are forgotten once they have waited `ttlMs` in the queue or `ttlMs` after they end.
+ * Jobs live in server memory only.
+ */
+
+type ScanJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+interface ScanJob {
+  id: string;
+  status: ScanJobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  // 1 for the next job to start; only while queued
+  queuePosition?: number;
+  progress: ScanProgressState;
+  report?: ScanReport;
+  error?: { type: string; details: string };
+}
+
+export interface ScanJobQueue {
+  // Null when the queue is full
+  submit(resolvedPath: string): ScanJob | null;
+  // Null for unknown and expired jobs
+  get(id: string): ScanJob | null;
+  // Cancels a queued or running job (a running one turns cancelled once its scan has stopped) and
+  // forgets a finished one; null for unknown and expired jobs
+  cancel(id: string): ScanJob | null;
+}
+
+interface ScanJobQueueOptions {
+  concurrency: number;
+  maxQueued: number;
+  ttlMs: number;
+  log: LoggerFunction;
+}
+
+interface JobRecord {
+  job: ScanJob;
+  resolvedPath: string;
+  // Stops the job's scan
+  controller: AbortController;
+  // Unset while running
+  expiresAt?: number;
+}
+
+const DEFAULT_SCAN_CONCURRENCY = 2;
+const DEFAULT_MAX_QUEUED_SCANS = 20;
+const DEFAULT_JOB_TTL_MINUTES = 60;
+
+export function createScanJobQueue({ concurrency, maxQueued, ttlMs, log }: ScanJobQueueOptions): ScanJobQueue {
+  const records = new Map<string, JobRecord>();
+  const queue: string[] = [];
+  let running = 0;
+
+  const removeFromQueue = (id: string) => {
+    const position = queue.indexOf(id);
+    if (position !== -1) queue.splice(position, 1);
+  };
+
+  // Expired jobs are dropped whenever the queue is used, so no timer keeps the process alive
+  const removeExpired = () => {
+    const now = Date.now();
+    for (const [id, record] of records) {
+      if (record.expiresAt === undefined || record.expiresAt > now) continue;
+      if (record.job.status === 'queued') {
+        removeFromQueue(id);
+        log('warn', 'scan', 'Scan job expired before it started', { id });
+      }
+      records.delete(id);
+    }
+  };
+
+  const finish = (record: JobRecord, fields: Pick<ScanJob, 'status' | 'report' | 'error'>) => {
+    Object.assign(record.job, fields, { finishedAt: new Date().toISOString() });
+    record.expiresAt = Date.now() + ttlMs;
+  };
+
+  const run = async (record: JobRecord) => {
+    const { job } = record;
+    running++;
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    record.expiresAt = undefined;
+    log('info', 'scan', 'Scan job started', { id: job.id, queued: queue.length });
+
+    try {
+      const report = await scanProject(record.resolvedPath, log, {
+        signal: record.controller.signal,
+        onProgress: event => {
+          job.progress = applyProgressEvent(job.progress, event);
+        }
+      });
+      log('info', 'scan', 'Scan job completed', { id: job.id, issueCount: report.issues.length });
+      await saveToReportStore(report, log);
+      finish(record, { status: 'completed', report: withRootSignature(report, record.resolvedPath) });
+    } catch (error: unknown) {
+      if (record.controller.signal.aborted) {
+        log('info', 'scan', 'Scan job cancelled', { id: job.id });
+        finish(record, { status: 'cancelled' });
+      } else {
+        const { type, details } = classifyScanError(error);
+        log('error', 'scan', 'Scan job failed', { id: job.id, type, error: details });
+        finish(record, { status: 'failed', error: { type, details } });
+      }
+    } finally {
+      running--;
+      startNext();
+    }
+  };
+
+  function startNext() {
+    removeExpired();
+    while (running < concurrency && queue.length > 0) {
+      const record = records.get(queue.shift() as string);
+      if (record) void run(record);
+    }
+  }
+
+  const submit = (resolvedPath: string) => {
+    removeExpired();
+    if (queue.length >= maxQueued) {
+      return null;
+    }
+
+    const job: ScanJob = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      progress: createProgressState()
+    };
+    records.set(job.id, { job, resolvedPath, controller: new AbortController(), expiresAt: Date.now() + ttlMs });
+    queue.push(job.id);
+    log('info', 'scan', 'Scan job queued', { id: job.id, queued: queue.length, running });
+    startNext();
+    return get(job.id);
+  };
+
+  const get = (id: string): ScanJob | null => {
+    removeExpired();
+    const record = records.get(id);
+    if (!record) return null;
+    const position = queue.indexOf(id);
+    return { ...record.job, ...(position !== -1 && { queuePosition: position + 1 }) };
+  };
+
+  const cancel = (id: string): ScanJob | null => {
+    removeExpired();
+    const record = records.get(id);
+    if (!record) return null;
+
+    if (record.job.status === 'queued') {
+      removeFromQueue(id);
+      finish(record, { status: 'cancelled' });
+      log('info', 'scan', 'Scan job cancelled', { id });
+    } else if (record.job.status === 'running') {
+      record.controller.abort();
+    } else {
+      records.delete(id);
+    }
+    return { ...record.job };
+  };
+
+  return { submit, get, cancel };
+}
+
+const readPositiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Kept on globalThis so every route bundle (and dev-mode reloads) share one queue
+const globalJobs = globalThis as typeof globalThis & { sanityGateScanJobs?: ScanJobQueue };
+
+/**
+ * The server-wide queue, configured from SANITY_GATE_SCAN_CONCURRENCY, SANITY_GATE_MAX_QUEUED_SCANS
+ * and SANITY_GATE_JOB_TTL_MINUTES on first use
+ */
+export function getScanJobQueue(log: LoggerFunction): ScanJobQueue {
+  if (!globalJobs.sanityGateScanJobs) {
+    globalJobs.sanityGateScanJobs = createScanJobQueue({
+      concurrency: readPositiveInt(process.env.SANITY_GATE_SCAN_CONCURRENCY, DEFAULT_SCAN_CONCURRENCY),
+      maxQueued: readPositiveInt(process.env.SANITY_GATE_MAX_QUEUED_SCANS, DEFAULT_MAX_QUEUED_SCANS),
+      ttlMs: readPositiveInt(process.env.SANITY_GATE_JOB_TTL_MINUTES, DEFAULT_JOB_TTL_MINUTES) * 60_000,
+      log
+    });
+  }
+  return globalJobs.sanityGateScanJobs;
+}
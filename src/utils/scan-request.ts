@@ -0,0 +1,139 @@
+import { NextResponse } from 'next/server';
+import { createReportStore } from '@/lib/report-store';
+import type { ScanReport } from '@/lib/scan';
+import type { LoggerFunction } from '@/utils/server-logger';
+import { resolveScanTarget } from '@/utils/path-utils';
+import { signPath, validateAuth } from '@/utils/security';
+
+/**
+ * Request handling shared by the scan API routes: auth, workspace-checked path resolution
+ * and mapping scan errors to API error types.
+ */
+
+type ScanRequest =
+  | { ok: true; resolvedPath: string; body: Record<string, unknown> }
+  | { ok: false; response: NextResponse };
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+// Error prefixes thrown by scanProject and its helpers, with their HTTP status
+const SCAN_ERROR_STATUS: Record<string, number> = {
+  VALIDATION_ERROR: 400,
+  PATH_NOT_FOUND: 400,
+  PERMISSION_DENIED: 403,
+  SECURITY_ERROR: 403,
+  CONFIG_ERROR: 400,
+  BASELINE_ERROR: 400,
+  // Client closed the request; nobody reads the response
+  SCAN_ABORTED: 499
+};
+
+// Workspace constraints from the environment, the same for requested scan paths and stored report roots
+const getWorkspaceOptions = () => ({
+  workspaceRoot: process.env.SANITY_GATE_ROOT,
+  enforceWorkspaceRoot: (process.env.SANITY_GATE_ENFORCE_ROOT || '').toLowerCase() === 'true',
+  baseDir: process.cwd()
+});
+
+/**
+ * 401 response when the request lacks the API token, null when it may proceed
+ */
+export function authorizeRequest(request: Request): NextResponse | null {
+  try {
+    validateAuth(request.headers);
+    return null;
+  } catch (authError: unknown) {
+    return NextResponse.json({
+      error: 'Unauthorized',
+      type: 'AUTH_ERROR',
+      details: getErrorMessage(authError, 'Unauthorized')
+    }, { status: 401 });
+  }
+}
+
+export async function parseScanRequest(request: Request, serverLog: LoggerFunction): Promise<ScanRequest> {
+  const unauthorized = authorizeRequest(request);
+  if (unauthorized) {
+    return { ok: false, response: unauthorized };
+  }
+
+  const body = await request.json().catch(() => ({})) as Record<string, unknown>;
+  const scanPath = body.path as string | undefined;
+  serverLog('info', 'scan', 'Scan API called', { path: scanPath });
+
+  try {
+    const resolvedPath = resolveScanTarget(scanPath, getWorkspaceOptions());
+    return { ok: true, resolvedPath, body };
+  } catch (error: unknown) {
+    const message = getErrorMessage(error, 'Invalid path');
+    const isSecurityError = message.includes('SECURITY_ERROR');
+    serverLog('error', 'scan', 'Workspace constraint violation', { message });
+    return {
+      ok: false,
+      response: NextResponse.json({
+        error: isSecurityError ? 'Path is outside the workspace root' : 'Invalid scan path',
+        type: isSecurityError ? 'SECURITY_ERROR' : 'VALIDATION_ERROR'
+      }, { status: isSecurityError ? 403 : 400 })
+    };
+  }
+}
+
+/**
+ * Maps an error thrown by a scan to its API error type, message without prefix and HTTP status
+ */
+export function classifyScanError(error: unknown): { type: string; details: string; status: number } {
+  const message = getErrorMessage(error, 'Unknown error occurred');
+  const type = Object.keys(SCAN_ERROR_STATUS).find(prefix => message.includes(prefix));
+  if (!type) {
+    return { type: 'UNKNOWN_ERROR', details: message, status: 500 };
+  }
+  return { type, details: message.replace(`${type}: `, ''), status: SCAN_ERROR_STATUS[type] };
+}
+
+/**
+ * Saves a finished report to the report store, setting its id. A failed save is logged
+ * rather than failing the scan, which has already produced its result.
+ */
+export async function saveToReportStore(report: ScanReport, serverLog: LoggerFunction): Promise<void> {
+  try {
+    const summary = await createReportStore().save(report);
+    serverLog('info', 'scan', 'Report saved to store', { id: summary.id, project: summary.project });
+  } catch (error: unknown) {
+    serverLog('warn', 'scan', 'Could not save report to store', { error: getErrorMessage(error, 'Unknown error') });
+  }
+}
+
+/**
+ * Adds the signed root path the file preview API requires
+ */
+export function withRootSignature(report: ScanReport, resolvedPath: string): ScanReport {
+  const normalizedRoot = report.rootPath || resolvedPath;
+  const rootSignature = signPath(normalizedRoot) || report.rootSignature;
+  return {
+    ...report,
+    rootPath: normalizedRoot,
+    rootSignature: rootSignature || undefined
+  };
+}
+
+/**
+ * Signs a stored report like a fresh scan, but only when its root passes the workspace check a scan request
+ * would get. Reports saved by the CLI for paths outside the workspace stay unsigned, so no file preview opens them.
+ */
+export function withStoredRootSignature(report: ScanReport, serverLog: LoggerFunction): ScanReport {
+  if (!report.rootPath) {
+    return report;
+  }
+  try {
+    const resolvedPath = resolveScanTarget(report.rootPath, getWorkspaceOptions());
+    // Sign exactly the path that passed the check
+    return withRootSignature({ ...report, rootPath: resolvedPath }, resolvedPath);
+  } catch (error: unknown) {
+    serverLog('warn', 'reports', 'Stored report root is outside the workspace; returned unsigned', {
+      id: report.id,
+      error: getErrorMessage(error, 'Invalid path')
+    });
+    return report;
+  }
+}
@@ -4,7 +4,7 @@ const AUTH_HEADER = 'x-sanity-token';
 
 const getAuthToken = () => (process.env.SANITY_GATE_TOKEN || '').trim();
 
-export function isAuthRequired(): boolean {
+function isAuthRequired(): boolean {
   return getAuthToken().length > 0;
 }
 
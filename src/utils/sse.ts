@@ -0,0 +1,48 @@
+/**
+ * Reads a Server-Sent Events response body (from fetch, which unlike EventSource can POST and send auth headers)
+ * and calls onEvent for each complete event. Resolves when the stream ends.
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: string, data: string) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+    if (dataLines.length > 0) {
+      onEvent(event, dataLines.join('\n'));
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+
+    if (done) {
+      if (buffer.trim()) dispatch(buffer);
+      return;
+    }
+  }
+}